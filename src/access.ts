@@ -0,0 +1,186 @@
+/**
+ * Sender authorization: only owners and trusted nicks may steer the agent through DMs
+ * and mentions. Entries can be pinned to a services account, checked via the IRCv3
+ * account tag when the server sends one and WHOIS otherwise.
+ */
+
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { appendFile, mkdir } from "node:fs/promises";
+import type { IRCAccessOptions, IRCTrustedUser } from "./types.js";
+
+export type TrustLevel = "owner" | "trusted" | "untrusted";
+export type UntrustedPolicy = "ignore" | "context" | "ask";
+
+export interface TrustEntry {
+  nick: string;
+  account?: string; // Services account the nick must be logged in to
+}
+
+export interface AccessVerdict {
+  level: TrustLevel;
+  reason?: string; // Why the sender isn't trusted
+}
+
+export interface Denial {
+  time: number; // Epoch ms
+  network: string;
+  nick: string;
+  target: string; // Channel, or "DM"
+  reason: string;
+  outcome: "ignored" | "context" | "rejected"; // What happened to the message
+}
+
+// Case folding and WHOIS come from the connection's client
+export interface AccessHooks {
+  fold(text: string): string;
+  // Account the nick is logged in to: null if none, undefined if the server didn't answer
+  whois(nick: string): Promise<string | null | undefined>;
+  warn(message: string): void; // The denial log could not be written
+}
+
+export interface AccessControl {
+  enabled: boolean; // Off = everyone is treated as an owner
+  untrusted: UntrustedPolicy;
+  owners: TrustEntry[];
+  trusted: TrustEntry[];
+  // account: from the message's account tag; null = not logged in, undefined = unknown
+  check(nick: string, account: string | null | undefined): Promise<AccessVerdict>;
+  trust(nick: string, account?: string): void;
+  untrust(nick: string): boolean; // Runtime-trusted or configured trusted; owners stay
+  noteAccount(nick: string, account: string | null): void; // ACCOUNT / extended-join
+  forget(nick: string): void; // Quit or nick change: the cached account no longer applies
+  deny(denial: Denial): boolean; // Logs it; true if the nick wasn't denied recently
+  denials(): Denial[]; // Most recent last
+}
+
+const ACCOUNT_TTL_MS = 10 * 60 * 1000;
+const DENIAL_QUIET_MS = 10 * 60 * 1000; // One notification per nick per window
+const MAX_DENIALS = 50;
+const DENIAL_LOG = join(homedir(), ".pi/agent/irc/denied.log");
+
+function toEntry(user: IRCTrustedUser): TrustEntry {
+  return typeof user === "string" ? { nick: user } : { nick: user.nick, account: user.account };
+}
+
+export function formatTrustEntry(entry: TrustEntry): string {
+  return entry.account ? `${entry.nick} (account ${entry.account})` : entry.nick;
+}
+
+function logDenial(denial: Denial, warn: (message: string) => void): void {
+  const line = `${new Date(denial.time).toISOString()} ${denial.network} ${denial.nick} -> ${denial.target}: ${denial.reason} (${denial.outcome})\n`;
+  mkdir(dirname(DENIAL_LOG), { recursive: true })
+    .then(() => appendFile(DENIAL_LOG, line, "utf-8"))
+    .catch((error) => warn(`Could not write IRC denial log: ${error.message}`));
+}
+
+export function createAccessControl(
+  options: IRCAccessOptions | undefined,
+  hooks: AccessHooks
+): AccessControl {
+  const owners = (options?.owners || []).map(toEntry);
+  const trusted = (options?.trusted || []).map(toEntry);
+  const accounts = new Map<string, { account: string | null; time: number }>();
+  const lookups = new Map<string, Promise<string | null | undefined>>(); // WHOIS in flight
+  const recent: Denial[] = [];
+  const lastDenied = new Map<string, number>();
+
+  const find = (entries: TrustEntry[], nick: string) =>
+    entries.find((entry) => hooks.fold(entry.nick) === hooks.fold(nick));
+
+  async function accountOf(nick: string): Promise<string | null | undefined> {
+    const key = hooks.fold(nick);
+    const cached = accounts.get(key);
+    if (cached && cached.time > Date.now() - ACCOUNT_TTL_MS) return cached.account;
+
+    let lookup = lookups.get(key);
+    if (!lookup) {
+      lookup = hooks.whois(nick).finally(() => lookups.delete(key));
+      lookups.set(key, lookup);
+    }
+    const account = await lookup;
+    if (account !== undefined) accounts.set(key, { account, time: Date.now() });
+    return account;
+  }
+
+  const control: AccessControl = {
+    enabled: !!options,
+    untrusted: options?.untrusted || "context",
+    owners,
+    trusted,
+
+    async check(nick, account) {
+      if (!control.enabled) return { level: "owner" };
+
+      const owner = find(owners, nick);
+      const entry = owner || find(trusted, nick);
+      if (!entry) return { level: "untrusted", reason: `${nick} is not trusted` };
+      const level: TrustLevel = owner ? "owner" : "trusted";
+      if (!entry.account) return { level };
+
+      if (account !== undefined) control.noteAccount(nick, account);
+      const actual = account !== undefined ? account : await accountOf(nick);
+      if (actual === undefined) {
+        return {
+          level: "untrusted",
+          reason: `${nick}'s account could not be verified (no WHOIS reply)`,
+        };
+      }
+      if (!actual) {
+        return {
+          level: "untrusted",
+          reason: `${nick} is not logged in to services (expected account ${entry.account})`,
+        };
+      }
+      if (hooks.fold(actual) !== hooks.fold(entry.account)) {
+        return {
+          level: "untrusted",
+          reason: `${nick} is logged in as ${actual}, not ${entry.account}`,
+        };
+      }
+      return { level };
+    },
+
+    trust(nick, account) {
+      control.enabled = true;
+      const existing = find(trusted, nick);
+      if (existing) {
+        existing.account = account;
+      } else {
+        trusted.push({ nick, account });
+      }
+    },
+
+    untrust(nick) {
+      const entry = find(trusted, nick);
+      if (!entry) return false;
+      trusted.splice(trusted.indexOf(entry), 1);
+      return true;
+    },
+
+    noteAccount(nick, account) {
+      accounts.set(hooks.fold(nick), { account, time: Date.now() });
+    },
+
+    forget(nick) {
+      accounts.delete(hooks.fold(nick));
+    },
+
+    deny(denial) {
+      recent.push(denial);
+      if (recent.length > MAX_DENIALS) recent.shift();
+      logDenial(denial, hooks.warn);
+
+      const key = hooks.fold(denial.nick);
+      const last = lastDenied.get(key);
+      lastDenied.set(key, denial.time);
+      return !last || last < denial.time - DENIAL_QUIET_MS;
+    },
+
+    denials() {
+      return [...recent];
+    },
+  };
+
+  return control;
+}
@@ -0,0 +1,118 @@
+/**
+ * Human approval for outbound messages: the human sees what the agent wants to say and
+ * approves, edits or rejects it before anything is sent
+ */
+
+import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import type { IRCApprovalOptions } from "./types.js";
+
+export interface ApprovalPolicy {
+  mode: "off" | "channels" | "all";
+  headless: "allow" | "deny"; // Without a UI there is nobody to ask
+  timeoutMs: number; // Unanswered dialogs count as rejected
+}
+
+export interface ApprovalRequest {
+  network: string;
+  target: string;
+  kind: "privmsg" | "notice" | "action" | "topic";
+  text: string;
+}
+
+export interface ApprovalDecision {
+  approved: boolean;
+  text: string; // What to send: as requested, or as edited by the human
+  edited: boolean;
+  by: "human" | "policy"; // policy: decided by `headless` with no UI to ask
+  reason?: string; // Why it wasn't approved
+}
+
+const DEFAULT_APPROVAL: ApprovalPolicy = {
+  mode: "off",
+  headless: "deny",
+  timeoutMs: 5 * 60 * 1000,
+};
+
+const CHOICES = { approve: "Approve", edit: "Edit", reject: "Reject" };
+
+export function resolveApprovalPolicy(
+  options?: IRCApprovalOptions | IRCApprovalOptions["mode"]
+): ApprovalPolicy {
+  const explicit = typeof options === "string" ? { mode: options } : options;
+  return { ...DEFAULT_APPROVAL, ...explicit };
+}
+
+export function needsApproval(policy: ApprovalPolicy, isChannel: boolean): boolean {
+  return policy.mode === "all" || (policy.mode === "channels" && isChannel);
+}
+
+/**
+ * Ask the human about one outbound message, or apply the headless policy without a UI
+ */
+export async function requestApproval(
+  ctx: ExtensionContext,
+  policy: ApprovalPolicy,
+  request: ApprovalRequest
+): Promise<ApprovalDecision> {
+  const { text } = request;
+
+  if (!ctx.hasUI) {
+    return policy.headless === "allow"
+      ? { approved: true, text, edited: false, by: "policy" }
+      : {
+          approved: false,
+          text,
+          edited: false,
+          by: "policy",
+          reason: "no human is available to approve it (headless session)",
+        };
+  }
+
+  const minutes = Math.round(policy.timeoutMs / 60000);
+  const what =
+    request.kind === "topic"
+      ? "set the topic of"
+      : `send ${request.kind === "privmsg" ? "" : `${request.kind} `}to`;
+  const choice = await ctx.ui.select(
+    `IRC: ${what} ${request.target} on ${request.network}?\n\n${text}`,
+    Object.values(CHOICES),
+    { timeout: policy.timeoutMs }
+  );
+
+  if (choice === CHOICES.approve) {
+    return { approved: true, text, edited: false, by: "human" };
+  }
+
+  if (choice === CHOICES.edit) {
+    const edited = (await ctx.ui.editor(`Edit message to ${request.target}`, text))?.trim();
+    if (!edited) {
+      return {
+        approved: false,
+        text,
+        edited: false,
+        by: "human",
+        reason: "the human cancelled editing",
+      };
+    }
+    return { approved: true, text: edited, edited: edited !== text, by: "human" };
+  }
+
+  if (choice === CHOICES.reject) {
+    const note = (await ctx.ui.input("Reason to tell the agent (optional)"))?.trim();
+    return {
+      approved: false,
+      text,
+      edited: false,
+      by: "human",
+      reason: note ? `the human rejected it: ${note}` : "the human rejected it",
+    };
+  }
+
+  return {
+    approved: false,
+    text,
+    edited: false,
+    by: "human",
+    reason: `nobody answered within ${minutes}m`,
+  };
+}
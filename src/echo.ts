@@ -0,0 +1,92 @@
+/**
+ * Delivery confirmation via IRCv3 echo-message: a line we send counts as delivered once the
+ * server relays it back to us, matched by its label (labeled-response) or else by target,
+ * kind and text in the order sent
+ */
+
+export interface EchoLine {
+  target: string;
+  kind: "privmsg" | "notice" | "action";
+  text: string;
+  label?: string; // Only with labeled-response
+}
+
+export type EchoOutcome =
+  | { delivered: true; time?: number; msgid?: string } // As the server stamped it
+  | { delivered: false; reason: string };
+
+export interface EchoTracker {
+  nextLabel(): string;
+  // Resolves when the echo arrives, the server refuses the target, or the wait runs out
+  expect(line: EchoLine, timeoutMs: number): Promise<EchoOutcome>;
+  // A message from our own nick; true if it was an echo we were waiting for
+  confirm(line: EchoLine & { time?: number; msgid?: string }): boolean;
+  // The server refused lines to a target (e.g. 404 cannot send to channel)
+  refuse(target: string, reason: string): void;
+  clear(): void; // Link lost: nothing pending will be echoed
+}
+
+interface Pending extends EchoLine {
+  settle: (outcome: EchoOutcome) => void;
+}
+
+// Case folding comes from the connection's client, as for the roster
+export function createEchoTracker(fold: (text: string) => string): EchoTracker {
+  let pending: Pending[] = [];
+  let labels = 0;
+
+  const settle = (entry: Pending, outcome: EchoOutcome) => {
+    pending = pending.filter((p) => p !== entry);
+    entry.settle(outcome);
+  };
+
+  return {
+    nextLabel() {
+      labels += 1;
+      return `pi${labels.toString(36)}`;
+    },
+
+    expect(line, timeoutMs) {
+      return new Promise((resolve) => {
+        const timer = setTimeout(
+          () =>
+            settle(entry, { delivered: false, reason: "the server did not echo it back in time" }),
+          timeoutMs
+        );
+        const entry: Pending = {
+          ...line,
+          settle: (outcome) => {
+            clearTimeout(timer);
+            resolve(outcome);
+          },
+        };
+        pending.push(entry);
+      });
+    },
+
+    confirm(line) {
+      // Echoes inside a labeled-response batch carry the label on the batch, not the line
+      const entry = line.label
+        ? pending.find((p) => p.label === line.label)
+        : pending.find(
+            (p) =>
+              p.kind === line.kind && p.text === line.text && fold(p.target) === fold(line.target)
+          );
+      if (!entry) return false;
+      settle(entry, { delivered: true, time: line.time, msgid: line.msgid });
+      return true;
+    },
+
+    refuse(target, reason) {
+      // Only the oldest: the server answers each line in turn
+      const entry = pending.find((p) => fold(p.target) === fold(target));
+      if (entry) settle(entry, { delivered: false, reason });
+    },
+
+    clear() {
+      for (const entry of [...pending]) {
+        settle(entry, { delivered: false, reason: "connection lost" });
+      }
+    },
+  };
+}
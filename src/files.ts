@@ -0,0 +1,36 @@
+/**
+ * Small filesystem helpers shared by config and state persistence
+ */
+
+import { homedir } from "node:os";
+import { dirname, join, resolve } from "node:path";
+import { mkdir, rename, stat, writeFile } from "node:fs/promises";
+
+/**
+ * Write a file atomically: write to a temp file next to it, then rename over the target
+ */
+export async function writeFileAtomic(path: string, content: string, mode = 0o600): Promise<void> {
+  await mkdir(dirname(path), { recursive: true });
+  const tmpFile = `${path}.${process.pid}.tmp`;
+  await writeFile(tmpFile, content, { encoding: "utf-8", mode });
+  await rename(tmpFile, path);
+}
+
+/**
+ * Resolve a config path: "~/" is the home directory, relative paths are under ~/.pi/agent/
+ */
+export function resolveConfigFilePath(filePath: string): string {
+  if (filePath.startsWith("~/")) {
+    return join(homedir(), filePath.slice(2));
+  }
+  return resolve(join(homedir(), ".pi", "agent"), filePath);
+}
+
+/**
+ * A warning if a file holding secrets can be read by group or others, null otherwise
+ */
+export async function checkPrivateFile(path: string, what: string): Promise<string | null> {
+  const mode = (await stat(path)).mode & 0o777;
+  if ((mode & 0o044) === 0) return null;
+  return `${what} ${path} is readable by group or others (mode ${mode.toString(8)}); run chmod 600 ${path}`;
+}
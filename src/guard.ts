@@ -0,0 +1,89 @@
+/**
+ * Conversation guard: caps how many agent turns one peer or channel can trigger,
+ * so two agents mentioning each other can't ping-pong all night
+ */
+
+import type { IRCLoopGuardOptions } from "./types.js";
+
+export interface LoopGuardPolicy {
+  enabled: boolean;
+  windowMs: number;
+  maxTurnsPerPeer: number;
+  maxTurnsPerChannel: number;
+  allowlist: string[]; // Nicks that always trigger turns (humans)
+  announce: boolean; // Post a one-line notice to the channel when pausing
+}
+
+export interface GuardVerdict {
+  allowed: boolean;
+  reason?: string; // Why the turn was suppressed
+  tripped?: boolean; // First suppression since the budget was last available
+}
+
+export interface ConversationGuard {
+  policy: LoopGuardPolicy;
+  // Call when a message would trigger a turn; records it if allowed
+  check(peer: string, channel?: string): GuardVerdict;
+}
+
+const DEFAULT_LOOP_GUARD: LoopGuardPolicy = {
+  enabled: true,
+  windowMs: 10 * 60 * 1000,
+  maxTurnsPerPeer: 10,
+  maxTurnsPerChannel: 20,
+  allowlist: [],
+  announce: false,
+};
+
+export function resolveLoopGuardPolicy(options?: IRCLoopGuardOptions): LoopGuardPolicy {
+  return { ...DEFAULT_LOOP_GUARD, ...options };
+}
+
+export function createConversationGuard(policy: LoopGuardPolicy): ConversationGuard {
+  const turns = new Map<string, number[]>(); // "peer:<nick>" / "channel:<name>" -> turn times
+  const tripped = new Set<string>();
+  const allowlist = new Set(policy.allowlist.map((nick) => nick.toLowerCase()));
+
+  function recent(key: string, now: number): number[] {
+    const times = (turns.get(key) || []).filter((t) => t > now - policy.windowMs);
+    turns.set(key, times);
+    return times;
+  }
+
+  function check(peer: string, channel?: string): GuardVerdict {
+    if (!policy.enabled || allowlist.has(peer.toLowerCase())) {
+      return { allowed: true };
+    }
+
+    const now = Date.now();
+    const minutes = Math.round(policy.windowMs / 60000);
+    const peerKey = `peer:${peer.toLowerCase()}`;
+    const channelKey = channel ? `channel:${channel.toLowerCase()}` : null;
+    const peerTurns = recent(peerKey, now);
+    const channelTurns = channelKey ? recent(channelKey, now) : [];
+
+    let key: string | null = null;
+    let reason = "";
+    if (peerTurns.length >= policy.maxTurnsPerPeer) {
+      key = peerKey;
+      reason = `${peer} triggered ${peerTurns.length} turns in ${minutes}m (max ${policy.maxTurnsPerPeer})`;
+    } else if (channelKey && channelTurns.length >= policy.maxTurnsPerChannel) {
+      key = channelKey;
+      reason = `${channel} triggered ${channelTurns.length} turns in ${minutes}m (max ${policy.maxTurnsPerChannel})`;
+    }
+
+    if (key) {
+      const first = !tripped.has(key);
+      tripped.add(key);
+      return { allowed: false, reason, tripped: first };
+    }
+
+    tripped.delete(peerKey);
+    if (channelKey) tripped.delete(channelKey);
+    peerTurns.push(now);
+    if (channelKey) channelTurns.push(now);
+    return { allowed: true };
+  }
+
+  return { policy, check };
+}
@@ -0,0 +1,111 @@
+/**
+ * Bounded per-target message history (channels and DM peers)
+ */
+
+export type HistoryKind = "message" | "action" | "notice" | "join" | "part" | "kick";
+
+export interface HistoryEntry {
+  network: string; // Connection the entry was seen on
+  time: number; // Epoch ms (server-time when available)
+  target: string; // Channel, or the other party for DMs
+  nick: string; // Who spoke / joined / left / was kicked
+  kind: HistoryKind;
+  text: string; // For kicks: who kicked, and why
+  outbound?: boolean; // Sent by us
+}
+
+export const HISTORY_SIZE = 200; // Entries kept per target
+const DEFAULT_HISTORY_LIMIT = 50;
+
+const histories = new Map<string, HistoryEntry[]>();
+
+// Targets are case-insensitive on IRC, and the same name can exist on several networks
+function historyKey(network: string, target: string): string {
+  return `${network}\n${target.toLowerCase()}`;
+}
+
+/**
+ * Append an entry, dropping the oldest once the target's buffer is full
+ */
+export function recordHistory(entry: HistoryEntry): void {
+  const key = historyKey(entry.network, entry.target);
+  let buffer = histories.get(key);
+  if (!buffer) {
+    buffer = [];
+    histories.set(key, buffer);
+  }
+
+  buffer.push(entry);
+  if (buffer.length > HISTORY_SIZE) {
+    buffer.shift();
+  }
+}
+
+/**
+ * Most recent entries for a target, oldest first
+ */
+export function getHistory(
+  network: string,
+  target: string,
+  options: { limit?: number; since?: number } = {}
+): HistoryEntry[] {
+  const buffer = histories.get(historyKey(network, target)) || [];
+  const since = options.since;
+  const limit = Math.min(Math.max(options.limit || DEFAULT_HISTORY_LIMIT, 1), HISTORY_SIZE);
+  const entries = since !== undefined ? buffer.filter((e) => e.time > since) : buffer;
+  return entries.slice(-limit);
+}
+
+/**
+ * Targets that have history on a network (or any network), as first seen
+ */
+export function listHistoryTargets(network?: string): string[] {
+  return [...histories.values()]
+    .filter((b) => b.length > 0 && (network === undefined || b[0].network === network))
+    .map((b) => b[0].target);
+}
+
+/**
+ * Networks that have any history
+ */
+export function listHistoryNetworks(): string[] {
+  return [...new Set([...histories.values()].filter((b) => b.length > 0).map((b) => b[0].network))];
+}
+
+/**
+ * Parse `since` as an ISO timestamp or a relative duration like "30m" or "2h"
+ */
+export function parseSince(since: string, now = Date.now()): number | null {
+  const relative = /^(\d+)\s*([smhd])$/i.exec(since.trim());
+  if (relative) {
+    const units: Record<string, number> = { s: 1000, m: 60000, h: 3600000, d: 86400000 };
+    return now - Number(relative[1]) * units[relative[2].toLowerCase()];
+  }
+  const time = Date.parse(since);
+  return Number.isNaN(time) ? null : time;
+}
+
+/**
+ * Render entries one per line for the agent
+ */
+export function formatHistory(entries: HistoryEntry[]): string {
+  return entries
+    .map((e) => {
+      const time = new Date(e.time).toISOString();
+      switch (e.kind) {
+        case "join":
+          return `[${time}] * ${e.nick} joined ${e.target}`;
+        case "part":
+          return `[${time}] * ${e.nick} left ${e.target}`;
+        case "kick":
+          return `[${time}] * ${e.nick} was kicked from ${e.target} by ${e.text}`;
+        case "action":
+          return `[${time}] * ${e.nick} ${e.text}`;
+        case "notice":
+          return `[${time}] -${e.nick}- ${e.text}`;
+        default:
+          return `[${time}] <${e.nick}> ${e.text}`;
+      }
+    })
+    .join("\n");
+}
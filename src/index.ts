@@ -15,29 +15,342 @@ import { Client as IRCClient } from "irc-framework";
 import { readFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
-import type { IRCState } from "./types.js";
-import { setConfigPath, getResolvedProfile } from "./profiles.js";
+import type {
+  IRCAccessOptions,
+  IRCApprovalOptions,
+  IRCLoopGuardOptions,
+  IRCProfile,
+  IRCRateLimitOptions,
+  IRCPlaybackOptions,
+  IRCRedactOptions,
+  IRCServer,
+  IRCState,
+  IRCTranscriptOptions,
+  IRCTriggerOptions,
+} from "./types.js";
+import {
+  setConfigPath,
+  getResolvedProfile,
+  listProfiles,
+  maskProfile,
+  saveProfile,
+  deleteProfile,
+  checkConfig,
+} from "./profiles.js";
+import { MAX_NICK_LENGTH, formatIssues } from "./validate.js";
+import {
+  recordHistory,
+  getHistory,
+  listHistoryTargets,
+  listHistoryNetworks,
+  parseSince,
+  formatHistory,
+  HISTORY_SIZE,
+  type HistoryEntry,
+} from "./history.js";
+import {
+  createTranscriptWriter,
+  SERVER_TARGET,
+  type TranscriptEvent,
+  type TranscriptWriter,
+} from "./transcript.js";
+import { splitMessage, maxPayloadBytes } from "./split.js";
+import {
+  createOutboundQueue,
+  resolveRateLimit,
+  type OutboundPriority,
+  type OutboundQueue,
+} from "./queue.js";
+import {
+  createConversationGuard,
+  resolveLoopGuardPolicy,
+  type ConversationGuard,
+  type GuardVerdict,
+} from "./guard.js";
+import {
+  createAccessControl,
+  formatTrustEntry,
+  type AccessControl,
+  type UntrustedPolicy,
+} from "./access.js";
+import {
+  resolveRedactPolicy,
+  screenMessage,
+  describeFindings,
+  type RedactPolicy,
+  type ScreenResult,
+} from "./redact.js";
+import {
+  resolveApprovalPolicy,
+  needsApproval,
+  requestApproval,
+  type ApprovalDecision,
+  type ApprovalPolicy,
+  type ApprovalRequest,
+} from "./approval.js";
+import {
+  createRoster,
+  type Roster,
+  type RosterChannel,
+  type RosterMember,
+  type RosterUser,
+} from "./roster.js";
+import { createEchoTracker, type EchoOutcome, type EchoTracker } from "./echo.js";
+import {
+  bouncerPassword,
+  resolvePlaybackPolicy,
+  summarizeBacklog,
+  PLAYBACK_BATCHES,
+  type PlaybackPolicy,
+} from "./playback.js";
+import { loadTLSMaterial, CATransport, TLSMaterialError } from "./tls.js";
+import { nickCandidates, parseNickLength, type NickSuffix } from "./nick.js";
+import { createMentionMatcher, type MentionMatcher } from "./mention.js";
+import { createTriggerPolicies, shouldTrigger, type TriggerPolicies } from "./trigger.js";
+import { loadState, saveState, clearState } from "./state.js";
+import {
+  resolveReconnectPolicy,
+  canRetry,
+  getBackoffDelay,
+  type ReconnectPolicy,
+} from "./reconnect.js";
 
 // Message buffering for multi-line pastes
 interface MessageBuffer {
   nick: string;
   target: string;
+  kind: "privmsg" | "action"; // Buffered separately so actions keep their "* nick" rendering
+  account: string | null | undefined; // From the account tag; undefined if the server sends none
+  meta: MessageMeta; // Of the first line
   messages: string[];
   timer: NodeJS.Timeout | null;
 }
 
+// What the server tagged an inbound message with, for the details of IRC custom messages
+interface MessageMeta {
+  time: string; // ISO; server-time when the server sends it, else when it arrived
+  account?: string; // account-tag
+  msgid?: string; // message-tags
+  batch?: string; // Type of the batch it came in (e.g. "chathistory")
+}
+
 // Event buffering for join/part notifications
 interface EventBuffer {
   channel: string;
   events: string[];
+  times: number[]; // Epoch ms of each event, server-time when the server sends it
   timer: NodeJS.Timeout | null;
 }
 
+// Everything needed to open a connection, whether manual or profile-based
+interface ConnectOptions {
+  network: string; // Registry key for the connection
+  host: string;
+  port: number;
+  ssl: boolean;
+  nick: string;
+  altNicks?: string[];
+  nickSuffix?: NickSuffix;
+  username: string;
+  realname: string;
+  channels: string[];
+  channelKeys?: Record<string, string>;
+  autoJoinOnInvite?: IRCProfile["autoJoinOnInvite"];
+  nickservPass?: string;
+  saslAccount?: string;
+  saslMechanism?: "PLAIN" | "EXTERNAL";
+  password?: string; // Server password
+  rejectUnauthorized?: boolean;
+  ca?: string; // Paths, read when connecting
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+  agentsFile?: string;
+  profileName?: string;
+  reconnect: ReconnectPolicy;
+  lastSeen?: Record<string, number>; // Carried over from a saved session
+  transcript?: IRCTranscriptOptions;
+  continuationMarker?: string;
+  rateLimit?: IRCRateLimitOptions;
+  playback?: IRCPlaybackOptions;
+  loopGuard?: IRCLoopGuardOptions;
+  trigger?: IRCTriggerOptions;
+  warnings?: string[]; // From resolving the profile, e.g. readable secret files
+  aliases?: string[];
+  highlights?: string[];
+  access?: IRCAccessOptions;
+  redact?: IRCRedactOptions;
+  approval?: IRCApprovalOptions | IRCApprovalOptions["mode"];
+}
+
+// One IRC link and everything scoped to it
+interface Connection {
+  client: IRCClient;
+  state: IRCState;
+  preferredNick: string; // First choice when (re)registering; state.nick is the nick we hold
+  altNicks: string[];
+  nickSuffix: NickSuffix;
+  triedNicks: Set<string>; // Nicks refused during the current registration, lowercased
+  agentsContent: string | null; // Cached custom AGENTS.md content
+  reconnectPolicy: ReconnectPolicy;
+  reconnectTimer: NodeJS.Timeout | null;
+  transcript: TranscriptWriter | null; // Per-profile chat logs, if enabled
+  continuationMarker: string; // Marks lines split for length
+  outbound: OutboundQueue; // Flood protection
+  guard: ConversationGuard; // Loop prevention
+  triggers: TriggerPolicies; // Which channel messages trigger turns
+  mentions: MentionMatcher; // Whether a message addresses us
+  access: AccessControl; // Who may steer the agent
+  redact: RedactPolicy; // Outbound secret filter
+  approval: ApprovalPolicy; // Which sends need a human's OK
+  roster: Roster; // Who is in our channels
+  channelKeys: Record<string, string>; // +k keys by channel, from the profile or 'join'
+  autoJoinOnInvite: NonNullable<IRCProfile["autoJoinOnInvite"]>;
+  joinWaiters: Map<string, ((outcome: JoinOutcome) => void)[]>; // Folded channel -> pending joins
+  whoisWaiters: Map<string, ((event: any) => void)[]>; // Folded nick -> pending WHOIS lookups
+  echoes: EchoTracker; // Sends awaiting the server's echo-message
+  playback: PlaybackPolicy; // Fetching what channels said while we were away
+  backlogs: Map<string, { channel: string; entries: HistoryEntry[] }>; // Batch id -> history
+}
+
+// What 'send' writes: a normal message, a NOTICE, or a CTCP ACTION (/me)
+type SendKind = "privmsg" | "notice" | "action";
+
+// Either the connection an action applies to, or the error to return instead
+type ConnectionLookup = { conn: Connection } | { error: AgentToolResult<unknown> };
+
+// How a JOIN ended: joined, refused by the server, or no answer in time
+interface JoinOutcome {
+  channel: string; // As the server spells it, once joined
+  joined: boolean;
+  error?: string; // irc-framework's error name, "redirected", "timeout" or "not_sent"
+  reason?: string;
+}
+
+// Our standing in a channel, for deciding which management actions we may try
+type ChannelRole = "op" | "halfop" | "member";
+
+// Either the joined channel an action applies to, or the error to return instead
+type ChannelLookup =
+  | { conn: Connection; channel: RosterChannel }
+  | { error: AgentToolResult<unknown> };
+
+// Whether a sender may trigger a turn; denied holds the reason when not
+interface Authorization {
+  owner: boolean;
+  denied?: string;
+  deliver: boolean; // Denied messages: deliver as context rather than drop
+}
+
+const CONNECT_TIMEOUT_MS = 10000;
 const MESSAGE_BUFFER_DELAY_MS = 1000;
 const EVENT_BUFFER_DELAY_MS = 2000; // Longer delay for join/part spam
+const STATE_SAVE_DELAY_MS = 1000; // Coalesce state.json writes on busy channels
+const WHOIS_TIMEOUT_MS = 10000;
+const JOIN_TIMEOUT_MS = 15000;
+const CHANGE_TIMEOUT_MS = 10000; // For the server to echo a MODE, KICK or TOPIC
+const ECHO_TIMEOUT_MS = 10000; // For echo-message to relay a sent line back
+const LATE_MESSAGE_MS = 60000; // Older than this by server-time: say when it was sent
+// Errors that refuse a PRIVMSG or NOTICE we sent (404, 401, ERR_CANNOTSENDTOUSER)
+const SEND_ERRORS = new Set(["cannot_send_to_channel", "no_such_nick", "cannot_send_to_user"]);
+// Numerics refusing a JOIN (471, 473, 474, 475, 405), by irc-framework's error name
+const JOIN_ERRORS = new Map([
+  ["channel_is_full", "the channel is full (+l)"],
+  ["invite_only_channel", "the channel is invite-only (+i)"],
+  ["banned_from_channel", "you are banned from it (+b)"],
+  ["bad_channel_key", "the channel key is wrong or missing (+k)"],
+  ["too_many_channels", "you are in too many channels"],
+]);
+// Errors that refuse a MODE, KICK or TOPIC we sent
+const CHANGE_ERRORS = new Set([
+  "chanop_privs_needed",
+  "user_not_in_channel",
+  "not_on_channel",
+  "no_such_nick",
+]);
+const ROLE_RANK: Record<ChannelRole, number> = { member: 0, halfop: 1, op: 2 };
+const ROLE_NAMES: Record<ChannelRole, string> = {
+  member: "a regular member",
+  halfop: "a half-op (+h)",
+  op: "a channel operator (+o)",
+};
+// op/deop/voice/devoice: the mode each sets, and the role it takes
+const MEMBER_MODES = {
+  op: { mode: "+o", needs: "op", done: "Opped" },
+  deop: { mode: "-o", needs: "op", done: "Deopped" },
+  voice: { mode: "+v", needs: "halfop", done: "Voiced" },
+  devoice: { mode: "-v", needs: "halfop", done: "Devoiced" },
+} satisfies Record<string, { mode: string; needs: ChannelRole; done: string }>;
+const ASK_TIMEOUT_MS = 120000; // Untrusted messages awaiting the human fall back to context
+const ASK_CHOICES = {
+  allow: "Allow this message",
+  trust: "Trust this nick from now on",
+  context: "Show as context only",
+  ignore: "Ignore",
+};
+// The command each kind goes out as, and the bytes its framing adds ("\x01ACTION " + "\x01").
+// Tags carry the labeled-response label.
+const SEND_KINDS: Record<
+  SendKind,
+  {
+    command: string;
+    framing: number;
+    send: (c: IRCClient, target: string, line: string, tags?: Record<string, string>) => void;
+  }
+> = {
+  privmsg: {
+    command: "PRIVMSG",
+    framing: 0,
+    send: (c, target, line, tags) => c.say(target, line, tags),
+  },
+  notice: {
+    command: "NOTICE",
+    framing: 0,
+    send: (c, target, line, tags) => c.notice(target, line, tags),
+  },
+  action: {
+    command: "PRIVMSG",
+    framing: 9,
+    send: (c, target, line, tags) => c.say(target, `\x01ACTION ${line}\x01`, tags),
+  },
+};
+// Network services whose notices go to the UI. The nick alone proves nothing (anyone can take
+// "FooServ" where it isn't reserved), so the sender's host must be a services host too.
+const SERVICE_NICKS = new Set([
+  "nickserv",
+  "chanserv",
+  "memoserv",
+  "hostserv",
+  "operserv",
+  "botserv",
+  "saslserv",
+  "alis",
+  "global",
+]);
+const SERVICE_HOST = /(?:^|\.)services?(?:\.|$)/i; // services.libera.chat, service.rizon.net
+
+function isServiceNotice(event: any): boolean {
+  return (
+    SERVICE_NICKS.has(String(event.nick).toLowerCase()) && SERVICE_HOST.test(event.hostname || "")
+  );
+}
+
+const CTCP_VERSION =
+  "pi-irc-messenger, an AI coding agent (https://github.com/ghoseb/pi-irc-messenger)";
+// Marks params from /irc: what the human typed needs no approval. A symbol can't come from the tool.
+const SENT_BY_HUMAN = Symbol("sentByHuman");
 const messageBuffers = new Map<string, MessageBuffer>();
 const eventBuffers = new Map<string, EventBuffer>();
 
+function messageMeta(event: any): MessageMeta {
+  return {
+    time: new Date(event.time || Date.now()).toISOString(),
+    ...(event.account && { account: event.account }),
+    ...(event.tags?.msgid && { msgid: event.tags.msgid }),
+    ...(event.batch && { batch: event.batch.type }),
+  };
+}
+
 // =============================================================================
 // Extension
 // =============================================================================
@@ -56,23 +369,110 @@ export default function piIRCMessenger(pi: ExtensionAPI) {
     default: "",
   });
 
-  // Singleton IRC client - persists across tool calls
-  let ircClient: IRCClient | null = null;
-  let currentState: IRCState | null = null;
-  let cachedAgentsContent: string | null = null; // Cached custom AGENTS.md content
+  // Live connections keyed by network name - persist across tool calls
+  const connections = new Map<string, Connection>();
+  let stateSaveTimer: NodeJS.Timeout | null = null;
 
-  // Update status bar with IRC connection info
+  // Update status bar with every connection's info
   function updateStatus(ctx: ExtensionContext): void {
-    if (!ctx.hasUI || !currentState) return;
+    if (!ctx.hasUI) return;
 
     const theme = ctx.ui.theme;
-    const nickStr = theme.fg("accent", currentState.nick);
+    const parts: string[] = [];
+
+    for (const conn of connections.values()) {
+      const { state } = conn;
+      const label = connections.size > 1 ? `${state.nick}@${state.network}` : state.nick;
+      const nickStr = theme.fg("accent", label);
+
+      if (state.connected) {
+        parts.push(nickStr);
+      } else if (state.reconnectAttempt) {
+        const max = conn.reconnectPolicy.maxAttempts || "∞";
+        const attemptStr = theme.fg("warning", `reconnecting ${state.reconnectAttempt}/${max}`);
+        parts.push(`${nickStr} (${attemptStr})`);
+      }
+    }
 
-    if (currentState.connected) {
-      ctx.ui.setStatus("irc", `irc: ${nickStr}`);
-    } else {
-      ctx.ui.setStatus("irc", "");
+    ctx.ui.setStatus("irc", parts.length > 0 ? `irc: ${parts.join(", ")}` : "");
+  }
+
+  // Prefix for inbound content, so the agent can tell networks apart once there are several
+  function networkTag(conn: Connection): string {
+    return connections.size > 1 ? `[${conn.state.network}] ` : "";
+  }
+
+  // Find the connection an action targets: the named network, or the only one there is
+  function lookupConnection(params: any): ConnectionLookup {
+    const network = params.network as string | undefined;
+    const names = [...connections.keys()];
+
+    if (network) {
+      const conn = connections.get(network);
+      if (conn) return { conn };
+      return {
+        error: {
+          content: [
+            {
+              type: "text",
+              text: `Error: Not connected to network "${network}". Connected: ${names.join(", ") || "none"}`,
+            },
+          ],
+          details: { error: "unknown_network", network, networks: names },
+        },
+      };
+    }
+
+    if (names.length === 1) {
+      return { conn: connections.get(names[0])! };
+    }
+
+    if (names.length > 1) {
+      return {
+        error: {
+          content: [
+            {
+              type: "text",
+              text: `Error: Connected to several networks, pass 'network': ${names.join(", ")}`,
+            },
+          ],
+          details: { error: "ambiguous_network", networks: names },
+        },
+      };
     }
+
+    return {
+      error: {
+        content: [
+          {
+            type: "text",
+            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
+          },
+        ],
+        details: { error: "not_connected" },
+      },
+    };
+  }
+
+  // Like lookupConnection, but the link must also be up
+  function lookupLiveConnection(params: any): ConnectionLookup {
+    const lookup = lookupConnection(params);
+    if ("error" in lookup || lookup.conn.state.connected) return lookup;
+
+    const network = lookup.conn.state.network;
+    return {
+      error: {
+        content: [
+          {
+            type: "text",
+            text: lookup.conn.state.reconnectAttempt
+              ? `Error: Not connected to IRC on ${network} (reconnecting). Try again shortly.`
+              : `Error: Not connected to IRC on ${network}. Use irc({ action: 'connect', ... }) to reconnect.`,
+          },
+        ],
+        details: { error: "not_connected", network },
+      },
+    };
   }
 
   // Resolve agentsFile path relative to ~/.pi/agent/
@@ -83,570 +483,3138 @@ export default function piIRCMessenger(pi: ExtensionAPI) {
   }
 
   // Load custom AGENTS.md file for a profile
-  async function loadAgentsFile(profileName: string): Promise<void> {
-    cachedAgentsContent = null; // Clear cache
+  async function loadAgentsFile(profileName: string, agentsFile?: string): Promise<string | null> {
+    if (!agentsFile) {
+      return null; // No agentsFile configured, skip
+    }
 
     try {
-      const profile = await getResolvedProfile(profileName);
-      if (!profile || !profile.profile.agentsFile) {
-        return; // No agentsFile configured, skip
-      }
-
-      const filePath = resolveAgentsFilePath(profile.profile.agentsFile);
-      const content = await readFile(filePath, "utf-8");
-      cachedAgentsContent = content;
+      const filePath = resolveAgentsFilePath(agentsFile);
+      return await readFile(filePath, "utf-8");
     } catch (error: any) {
       // Silently skip if file doesn't exist or can't be read
       // This feature is optional, don't break connection
       // TODO: Replace with notify
       console.warn(`Could not load agentsFile for profile ${profileName}: ${error.message}`);
+      return null;
     }
   }
 
-  // Setup event handlers once when client is created
-  function setupClient(ctx: ExtensionContext) {
-    if (!ircClient) return;
-
-    // Shared helper for flushing event buffers
-    const flushEventBuffer = (bufferKey: string, buffer: EventBuffer) => {
-      if (buffer.events.length === 0) return;
+  // Normalize channel names to start with #
+  function normalizeChannels(channels: string[]): string[] {
+    return channels.map((ch) => (ch.startsWith("#") ? ch : `#${ch}`));
+  }
 
-      const content = buffer.events.join("\n");
-      pi.sendMessage(
-        {
-          customType: "irc_join_part",
-          content,
-          display: true,
-          details: { channel: buffer.channel, events: buffer.events },
-        },
-        { triggerTurn: false }
-      );
+  // The server's NICKLEN from ISUPPORT, or null before it has told us
+  function serverNickLength(conn: Connection): number | null {
+    return parseNickLength(conn.client.network.supports("NICKLEN"));
+  }
 
-      eventBuffers.delete(bufferKey);
-    };
+  // Next nick to try after a collision, or null once every candidate was refused
+  function nextNick(conn: Connection): string | null {
+    const maxLength = serverNickLength(conn) ?? MAX_NICK_LENGTH;
+    const candidates = nickCandidates(
+      conn.preferredNick,
+      conn.altNicks,
+      conn.nickSuffix,
+      maxLength
+    );
+    return candidates.find((nick) => !conn.triedNicks.has(conn.client.caseLower(nick))) ?? null;
+  }
 
-    ircClient.on("registered", () => {
-      if (!currentState) return;
+  // Start a fresh registration attempt with the given nick
+  function resetNickAttempts(conn: Connection, nick: string): void {
+    conn.triedNicks = new Set([conn.client.caseLower(nick)]);
+  }
 
-      currentState.connected = true;
+  // Build connection options from a profile, letting explicit params override profile fields
+  async function resolveConnectOptions(params: any): Promise<ConnectOptions> {
+    const profileName = params.profile as string | undefined;
+    let resolved: Awaited<ReturnType<typeof getResolvedProfile>> = null;
 
-      if (ctx.hasUI) {
-        ctx.ui.notify(`IRC connected as ${currentState.nick}`, "info");
-        updateStatus(ctx);
+    if (profileName) {
+      resolved = await getResolvedProfile(profileName);
+      if (!resolved) {
+        throw new Error(`IRC profile "${profileName}" not found`);
       }
+    }
 
-      // Auto-join channels
-      // FIXME: Find out why only the last channel join shows a notification
-      // should group all channels joined and send one notification
-      // see: `join` event handling
-      for (const channel of currentState.channels) {
-        ircClient!.join(channel);
-      }
-    });
+    const profile = resolved?.profile;
+    const server = resolved?.server;
+    const secrets = resolved?.secrets;
+    const nick = (params.nickname as string) || profile?.nick || "";
+    const host = (params.host as string) || server?.host || "";
 
-    ircClient.on("motd", (event: any) => {
-      if (event.motd?.trim()) {
-        pi.sendMessage(
-          {
-            customType: "irc_motd",
-            content: `Server MOTD:\n${event.motd}`,
-            display: true,
-            details: { motd: event.motd },
-          },
-          { triggerTurn: false }
-        );
-      }
-    });
+    return {
+      network: (params.network as string) || profileName || host,
+      host,
+      port: (params.port as number) || server?.port || 6667,
+      ssl: server?.ssl || false,
+      nick,
+      altNicks: profile?.altNicks,
+      nickSuffix: profile?.nickSuffix,
+      username: profile?.username || nick,
+      realname: profile?.realname || nick,
+      channels: normalizeChannels((params.channels as string[]) || profile?.channels || []),
+      channelKeys: secrets?.channelKeys,
+      autoJoinOnInvite: profile?.autoJoinOnInvite,
+      nickservPass: secrets?.nickservPass,
+      saslAccount: profile?.saslAccount,
+      saslMechanism: profile?.saslMechanism,
+      // A bouncer wants to know whose account, and which network, the password is for
+      password:
+        server?.bouncer && secrets?.password
+          ? bouncerPassword(server.bouncer, secrets.password)
+          : secrets?.password,
+      rejectUnauthorized: server?.rejectUnauthorized,
+      ca: server?.ca,
+      clientCert: server?.clientCert,
+      clientKey: server?.clientKey,
+      clientKeyPassphrase: secrets?.clientKeyPassphrase,
+      agentsFile: profile?.agentsFile,
+      profileName,
+      reconnect: resolveReconnectPolicy(server?.reconnect, profile?.reconnect),
+      transcript: profile?.transcript,
+      continuationMarker: profile?.continuationMarker,
+      rateLimit: server?.rateLimit,
+      playback: server?.playback,
+      loopGuard: profile?.loopGuard,
+      trigger: profile?.trigger,
+      aliases: profile?.aliases,
+      highlights: profile?.highlights,
+      access: profile?.access,
+      redact: profile?.redact,
+      approval: profile?.approval,
+      warnings: resolved?.warnings,
+    };
+  }
 
-    ircClient.on("topic", (event: any) => {
-      if (event.topic) {
-        pi.sendMessage(
-          {
-            customType: "irc_channel_topic",
-            content: `Topic for ${event.channel}: ${event.topic}`,
-            display: true,
-            details: { channel: event.channel, topic: event.topic },
-          },
-          { triggerTurn: false }
-        );
-      }
-    });
+  // Shared connection path for manual connects and auto-connect on startup
+  async function startConnection(opts: ConnectOptions, ctx: ExtensionContext): Promise<Connection> {
+    // Fails before anything is torn down if a certificate file can't be read
+    const tls = await loadTLSMaterial(opts);
 
-    ircClient.on("join", (event: any) => {
-      // Notify UI when we join
-      // FIXME: Need to buffer here too
-      if (ctx.hasUI && event.nick === ircClient?.user.nick) {
-        ctx.ui.notify(`Joined ${event.channel}`, "info");
-        return;
+    if (ctx.hasUI) {
+      for (const warning of opts.warnings || []) {
+        ctx.ui.notify(`IRC: ${warning}`, "warning");
       }
+    }
 
-      // Buffer join events for other users
-      // FIXME: Buffering logic is duplicated, refactor
-      if (event.nick !== ircClient?.user.nick) {
-        const channel = event.channel;
-        const bufferKey = channel;
+    // Load custom AGENTS.md if configured for this profile
+    const agentsContent = opts.profileName
+      ? await loadAgentsFile(opts.profileName, opts.agentsFile)
+      : null;
+
+    // The same options object goes to both constructor and connect(), since
+    // irc-framework replaces its options wholesale on connect()
+    const clientOptions: any = {
+      host: opts.host,
+      port: opts.port,
+      nick: opts.nick,
+      username: opts.username,
+      gecos: opts.realname,
+      tls: opts.ssl,
+      // Lines are pre-split by sendLines(), so irc-framework must not split them again
+      message_max_length: 512,
+      // Answered from "ctcp request" instead, so the reply goes through the flood limiter
+      version: null,
+      // Reconnects are driven by scheduleReconnect() so we control backoff and status
+      auto_reconnect: false,
+      // Lets 'send' confirm delivery; server-time, account-tag, message-tags and batch
+      // are requested by irc-framework itself
+      enable_echomessage: true,
+    };
 
-        let buffer = eventBuffers.get(bufferKey);
-        if (!buffer) {
-          buffer = { channel, events: [], timer: null };
-          eventBuffers.set(bufferKey, buffer);
-        }
+    if (opts.password) {
+      clientOptions.password = opts.password;
+    }
+    if (opts.rejectUnauthorized !== undefined) {
+      clientOptions.rejectUnauthorized = opts.rejectUnauthorized;
+    }
+    if (tls.cert) {
+      clientOptions.client_certificate = { certificate: tls.cert, private_key: tls.key };
+    }
+    if (tls.ca) {
+      clientOptions.transport = CATransport;
+      clientOptions.ca = tls.ca;
+    }
 
-        if (buffer.timer) clearTimeout(buffer.timer);
+    if (opts.saslMechanism === "EXTERNAL") {
+      clientOptions.sasl_mechanism = "EXTERNAL";
+    } else if (opts.nickservPass) {
+      clientOptions.account = {
+        account: opts.saslAccount || opts.nick,
+        password: opts.nickservPass,
+      };
+    } else if (opts.password) {
+      // Without this irc-framework would also try the server password for SASL
+      clientOptions.account = {};
+    }
 
-        buffer.events.push(`${event.nick} joined ${channel}`);
+    // Drop any client for this network still stuck registering from an earlier attempt
+    const previous = connections.get(opts.network);
+    if (previous) {
+      closeConnection(previous);
+    }
 
-        buffer.timer = setTimeout(() => {
-          flushEventBuffer(bufferKey, buffer!);
-        }, EVENT_BUFFER_DELAY_MS);
-      }
-    });
+    const conn: Connection = {
+      client: new IRCClient(clientOptions),
+      state: {
+        network: opts.network,
+        connected: false,
+        host: opts.host,
+        port: opts.port,
+        nick: opts.nick,
+        channels: opts.channels,
+        profileName: opts.profileName,
+        lastSeen: opts.lastSeen || {},
+      },
+      preferredNick: opts.nick,
+      altNicks: opts.altNicks || [],
+      nickSuffix: opts.nickSuffix || "underscore",
+      triedNicks: new Set(),
+      agentsContent,
+      reconnectPolicy: opts.reconnect,
+      reconnectTimer: null,
+      transcript: opts.profileName
+        ? createTranscriptWriter(opts.transcript, opts.profileName, (message) => {
+            if (ctx.hasUI) ctx.ui.notify(message, "warning");
+          })
+        : null,
+      continuationMarker: opts.continuationMarker || "",
+      outbound: createOutboundQueue(resolveRateLimit(opts.rateLimit)),
+      guard: createConversationGuard(resolveLoopGuardPolicy(opts.loopGuard)),
+      triggers: createTriggerPolicies(opts.trigger),
+      mentions: createMentionMatcher({ aliases: opts.aliases, highlights: opts.highlights }),
+      access: createAccessControl(opts.access, {
+        fold: (text) => conn.client.caseLower(text),
+        whois: (nick) => whoisAccount(conn, nick),
+        warn: (message) => {
+          if (ctx.hasUI) ctx.ui.notify(message, "warning");
+        },
+      }),
+      redact: resolveRedactPolicy(opts.redact),
+      approval: resolveApprovalPolicy(opts.approval),
+      roster: createRoster({
+        fold: (text) => conn.client.caseLower(text),
+        prefixes: () => conn.client.network.options.PREFIX || [],
+      }),
+      channelKeys: { ...opts.channelKeys },
+      autoJoinOnInvite: opts.autoJoinOnInvite || "never",
+      joinWaiters: new Map(),
+      whoisWaiters: new Map(),
+      echoes: createEchoTracker((text) => conn.client.caseLower(text)),
+      playback: resolvePlaybackPolicy(opts.playback),
+      backlogs: new Map(),
+    };
+    // Ties each echo (or refusal) to the line that caused it
+    conn.client.requestCap("labeled-response");
+    if (conn.playback.enabled) {
+      conn.client.requestCap(["draft/chathistory", "chathistory", "znc.in/playback"]);
+    }
 
-    ircClient.on("part", (event: any) => {
-      // Buffer part events for users leaving
-      if (event.nick !== ircClient?.user.nick) {
-        const channel = event.channel;
-        const bufferKey = channel;
+    connections.set(opts.network, conn);
+    resetNickAttempts(conn, opts.nick);
+    setupClient(conn, ctx);
 
-        let buffer = eventBuffers.get(bufferKey);
-        if (!buffer) {
-          buffer = { channel, events: [], timer: null };
-          eventBuffers.set(bufferKey, buffer);
-        }
+    conn.client.connect(clientOptions);
+    return conn;
+  }
 
-        if (buffer.timer) clearTimeout(buffer.timer);
+  // Stop a connection's timers and queue, quit it, and drop it from the registry
+  function closeConnection(conn: Connection, message?: string): void {
+    cancelReconnect(conn);
+    conn.outbound.clear();
+    conn.client.quit(message);
+    if (connections.get(conn.state.network) === conn) {
+      connections.delete(conn.state.network);
+    }
+  }
 
-        buffer.events.push(`${event.nick} left ${channel}`);
+  // Write every connection's state to state.json now
+  async function flushState(ctx: ExtensionContext): Promise<void> {
+    if (stateSaveTimer) {
+      clearTimeout(stateSaveTimer);
+      stateSaveTimer = null;
+    }
+    if (connections.size === 0) return;
 
-        buffer.timer = setTimeout(() => {
-          flushEventBuffer(bufferKey, buffer!);
-        }, EVENT_BUFFER_DELAY_MS);
+    const savedAt = Date.now();
+    try {
+      await saveState(
+        [...connections.values()].map(({ state, preferredNick }) => ({
+          network: state.network,
+          profileName: state.profileName,
+          host: state.host,
+          port: state.port,
+          nick: state.nick,
+          preferredNick,
+          channels: state.channels,
+          lastSeen: state.lastSeen,
+          savedAt,
+        }))
+      );
+    } catch (error: any) {
+      if (ctx.hasUI) {
+        ctx.ui.notify(`Could not save IRC state: ${error.message}`, "warning");
       }
-    });
+    }
+  }
 
-    ircClient.on("message", (event: any) => {
-      if (!currentState) return;
+  // Schedule a state.json write after a state change
+  function persistState(ctx: ExtensionContext): void {
+    if (stateSaveTimer) return;
+    stateSaveTimer = setTimeout(() => {
+      stateSaveTimer = null;
+      void flushState(ctx);
+    }, STATE_SAVE_DELAY_MS);
+  }
 
-      const isDM = event.target === currentState.nick;
-      const bufferKey = `${event.target}:${event.nick}`;
+  // Queue a command for a connection's client behind its flood limiter
+  function sendQueued(
+    conn: Connection,
+    priority: OutboundPriority,
+    send: (client: IRCClient) => void,
+    target?: string
+  ): Promise<boolean> {
+    const client = conn.client;
+    return conn.outbound.enqueue(priority, () => send(client), target);
+  }
 
-      const flushBuffer = (buffer: MessageBuffer) => {
-        if (buffer.messages.length === 0) return;
+  // WHOIS a nick through the flood limiter; undefined if no reply in time
+  function whois(conn: Connection, nick: string): Promise<any | undefined> {
+    const folded = conn.client.caseLower(nick);
+    return new Promise((resolve) => {
+      const finish = (event: any) => {
+        clearTimeout(timer);
+        const rest = (conn.whoisWaiters.get(folded) || []).filter((f) => f !== finish);
+        if (rest.length > 0) {
+          conn.whoisWaiters.set(folded, rest);
+        } else {
+          conn.whoisWaiters.delete(folded);
+        }
+        resolve(event);
+      };
+      const timer = setTimeout(() => finish(undefined), WHOIS_TIMEOUT_MS);
+      conn.whoisWaiters.set(folded, [...(conn.whoisWaiters.get(folded) || []), finish]);
 
-        const combinedMessage = buffer.messages.join("\n");
+      // Replies are matched by the one 'whois' handler in setupClient, so a lookup that times
+      // out leaves no listener behind on the client
+      void sendQueued(conn, "control", (c) => c.raw("WHOIS", nick)).then((sent) => {
+        if (!sent) finish(undefined);
+      });
+    });
+  }
+
+  // The key a channel was given, if any
+  function channelKey(conn: Connection, channel: string): string | undefined {
+    const name = Object.keys(conn.channelKeys).find((c) => conn.client.caseCompare(c, channel));
+    return name && conn.channelKeys[name];
+  }
+
+  // Ask for what a channel said since we last saw it there: CHATHISTORY, or a ZNC bouncer's
+  // buffer. Either way it arrives as a batch, which the message handler collects.
+  function requestPlayback(conn: Connection, channel: string): void {
+    const { client, state } = conn;
+    const seen = Object.keys(state.lastSeen).find((c) => client.caseCompare(c, channel));
+    if (!conn.playback.enabled || !seen) return;
+    const since = state.lastSeen[seen];
+
+    if (
+      client.network.cap.isEnabled("draft/chathistory") ||
+      client.network.cap.isEnabled("chathistory")
+    ) {
+      // CHATHISTORY=<n> in ISUPPORT caps the page size; 0 means no cap
+      const max =
+        parseInt(String(client.network.supports("CHATHISTORY")), 10) || conn.playback.limit;
+      const limit = Math.min(conn.playback.limit, max);
+      const after = `timestamp=${new Date(since).toISOString()}`;
+      void sendQueued(conn, "control", (c) =>
+        c.raw("CHATHISTORY", "AFTER", channel, after, String(limit))
+      );
+    } else if (client.network.cap.isEnabled("znc.in/playback")) {
+      void sendQueued(conn, "control", (c) =>
+        c.say("*playback", `PLAY ${channel} ${since / 1000}`)
+      );
+    }
+  }
 
-        if (isDM) {
-          const content = `IRC DM from ${buffer.nick}: ${combinedMessage}`;
-          pi.sendUserMessage(content, { deliverAs: "steer" });
+  // Send a JOIN and wait for the server's answer: our own JOIN echoed back, or a numeric
+  // refusing it. Membership itself is updated by the event handlers.
+  function joinChannel(conn: Connection, channel: string, key?: string): Promise<JoinOutcome> {
+    const folded = conn.client.caseLower(channel);
+    return new Promise((resolve) => {
+      const finish = (outcome: JoinOutcome) => {
+        clearTimeout(timer);
+        const rest = (conn.joinWaiters.get(folded) || []).filter((f) => f !== finish);
+        if (rest.length > 0) {
+          conn.joinWaiters.set(folded, rest);
         } else {
-          const content = `[${buffer.target}] ${buffer.nick}: ${combinedMessage}`;
-          const ourNick = currentState!.nick;
-          const hasMention = combinedMessage.includes(`@${ourNick}`);
-          pi.sendMessage(
-            {
-              customType: "irc_channel_message",
-              content,
-              display: true, // NOTE: Consider hiding these messages, if not hasMention
-              details: {
-                channel: buffer.target,
-                nick: buffer.nick,
-                message: combinedMessage,
-              },
-            },
-            { triggerTurn: hasMention }
-          );
+          conn.joinWaiters.delete(folded);
         }
-
-        messageBuffers.delete(bufferKey);
+        resolve(outcome);
       };
+      const timer = setTimeout(
+        () =>
+          finish({
+            channel,
+            joined: false,
+            error: "timeout",
+            reason: "no reply from the server yet",
+          }),
+        JOIN_TIMEOUT_MS
+      );
+      conn.joinWaiters.set(folded, [...(conn.joinWaiters.get(folded) || []), finish]);
+
+      void sendQueued(conn, "control", (c) =>
+        c.join(channel, key ?? channelKey(conn, channel))
+      ).then((sent) => {
+        if (!sent) {
+          finish({
+            channel,
+            joined: false,
+            error: "not_sent",
+            reason: "the link dropped before the JOIN went out",
+          });
+        }
+      });
+    });
+  }
 
-      let buffer = messageBuffers.get(bufferKey);
+  // Settle every join waiting on a channel; false if nobody was waiting
+  function settleJoin(conn: Connection, channel: string, outcome: JoinOutcome): boolean {
+    const waiters = conn.joinWaiters.get(conn.client.caseLower(channel)) || [];
+    waiters.forEach((finish) => finish(outcome));
+    return waiters.length > 0;
+  }
 
-      if (!buffer) {
-        buffer = {
-          nick: event.nick,
-          target: event.target,
-          messages: [],
-          timer: null,
-        };
-        messageBuffers.set(bufferKey, buffer);
-      }
+  // state.channels follows what the server confirms: added on our JOIN, removed on PART/KICK
+  function addChannel(conn: Connection, channel: string, ctx: ExtensionContext): void {
+    if (!conn.state.channels.some((c) => conn.client.caseCompare(c, channel))) {
+      conn.state.channels.push(channel);
+      persistState(ctx);
+    }
+  }
 
-      if (buffer.timer) {
-        clearTimeout(buffer.timer);
-      }
+  function removeChannel(conn: Connection, channel: string, ctx: ExtensionContext): boolean {
+    const index = conn.state.channels.findIndex((c) => conn.client.caseCompare(c, channel));
+    if (index === -1) return false;
+    conn.state.channels.splice(index, 1);
+    persistState(ctx);
+    return true;
+  }
 
-      buffer.messages.push(event.message);
+  // Services account a nick is logged in to, via WHOIS; undefined if no reply in time
+  async function whoisAccount(conn: Connection, nick: string): Promise<string | null | undefined> {
+    const event = await whois(conn, nick);
+    return event && (event.account || null);
+  }
 
-      buffer.timer = setTimeout(() => {
-        flushBuffer(buffer!);
-      }, MESSAGE_BUFFER_DELAY_MS);
-    });
+  // Screen outgoing text for secrets and get a human's approval if the profile wants it
+  // (from approver; omitted for text the human wrote). cleared: screen.text may go out.
+  async function vetOutbound(
+    conn: Connection,
+    target: string,
+    text: string,
+    kind: ApprovalRequest["kind"],
+    approver?: ExtensionContext
+  ): Promise<{ cleared: boolean; screen: ScreenResult; approval?: ApprovalDecision }> {
+    let screen = screenMessage(text, conn.redact);
+    if (screen.blocked) {
+      return { cleared: false, screen };
+    }
 
-    ircClient.on("close", () => {
-      if (currentState) {
-        currentState.connected = false;
+    let approval: ApprovalDecision | undefined;
+    if (approver && needsApproval(conn.approval, conn.client.network.isChannelName(target))) {
+      approval = await requestApproval(approver, conn.approval, {
+        network: conn.state.network,
+        target,
+        kind,
+        text: screen.text,
+      });
+      if (!approval.approved) {
+        return { cleared: false, screen, approval };
       }
-      if (ctx.hasUI) {
-        ctx.ui.notify("IRC connection closed", "warning");
+      // The human's edits are screened like anything else
+      if (approval.edited) {
+        const findings = screen.findings;
+        screen = screenMessage(approval.text, conn.redact);
+        screen.findings.unshift(...findings);
       }
-      updateStatus(ctx);
-    });
+    }
+    return { cleared: !screen.blocked, screen, approval };
+  }
 
-    ircClient.on("socket error", (err: any) => {
-      if (ctx.hasUI) {
-        ctx.ui.notify(`IRC error: ${err.message}`, "error");
-      }
-    });
+  // Vet a message, split it into IRC-sized lines and queue them behind the flood limiter.
+  // Reports what was withheld, the approval decision, how many lines actually went out
+  // (fewer than total if the link dropped midway), or why the whole message was refused.
+  async function sendLines(
+    conn: Connection,
+    target: string,
+    message: string,
+    kind: SendKind,
+    approver?: ExtensionContext
+  ): Promise<{
+    sent: number;
+    total: number;
+    echoed?: EchoOutcome[]; // Per line sent, when the server has echo-message
+    refused?: string;
+    screen: ScreenResult;
+    approval?: ApprovalDecision;
+  }> {
+    const { cleared, screen, approval } = await vetOutbound(conn, target, message, kind, approver);
+    if (!cleared) {
+      return { sent: 0, total: 0, screen, approval };
+    }
 
-    ircClient.on("nick", (event: any) => {
-      if (currentState && event.nick === currentState.nick) {
-        currentState.nick = event.new_nick;
-        if (ctx.hasUI) {
-          ctx.ui.notify(`Nick changed to ${event.new_nick}`, "info");
-          updateStatus(ctx);
-        }
-      }
-    });
-  }
+    const client = conn.client;
+    const { command, framing, send } = SEND_KINDS[kind];
+    const maxBytes =
+      maxPayloadBytes(command, target, conn.state.nick, client.user.username, client.user.host) -
+      framing;
+    const lines = splitMessage(screen.text, maxBytes, conn.continuationMarker);
 
-  // =============================================================================
-  // Action Handlers
-  // =============================================================================
+    const refused = conn.outbound.canAccept(target, lines.length);
+    if (refused) {
+      return { sent: 0, total: lines.length, refused, screen, approval };
+    }
+
+    // With echo-message a line is delivered once the server relays it back to us
+    const echo = client.network.cap.isEnabled("echo-message");
+    const labeled = echo && client.network.cap.isEnabled("labeled-response");
+    const results = await Promise.all(
+      lines.map(async (line) => {
+        let echoed: Promise<EchoOutcome> | undefined;
+        const written = await sendQueued(
+          conn,
+          "chat",
+          (c) => {
+            const label = labeled ? conn.echoes.nextLabel() : undefined;
+            if (echo) {
+              echoed = conn.echoes.expect({ target, kind, text: line, label }, ECHO_TIMEOUT_MS);
+            }
+            send(c, target, line, label ? { label } : undefined);
+          },
+          target
+        );
+        return { written, echoed: written ? await echoed : undefined };
+      })
+    );
+    const sent = results.filter((r) => r.written);
+    return {
+      sent: sent.length,
+      total: lines.length,
+      ...(echo && { echoed: sent.map((r) => r.echoed!) }),
+      screen,
+      approval,
+    };
+  }
+
+  // Tell the human (and optionally the channel) the first time a turn budget runs out
+  function reportGuardTrip(
+    conn: Connection,
+    verdict: GuardVerdict,
+    peer: string,
+    ctx: ExtensionContext,
+    channel?: string
+  ): void {
+    if (!verdict.tripped) return;
+
+    if (ctx.hasUI) {
+      ctx.ui.notify(
+        `IRC loop guard: not triggering turns for now. ${networkTag(conn)}${verdict.reason}`,
+        "warning"
+      );
+    }
+
+    if (channel && conn.guard.policy.announce) {
+      const minutes = Math.round(conn.guard.policy.windowMs / 60000);
+      const notice = `${peer}: pausing auto-replies here for up to ${minutes}m (turn budget reached)`;
+      void sendQueued(conn, "chat", (c) => c.notice(channel, notice), channel);
+    }
+  }
+
+  function logTranscript(conn: Connection, event: TranscriptEvent): void {
+    conn.transcript?.write(event);
+  }
+
+  function cancelReconnect(conn: Connection): void {
+    if (conn.reconnectTimer) {
+      clearTimeout(conn.reconnectTimer);
+      conn.reconnectTimer = null;
+    }
+  }
+
+  // Tell the agent about link state changes without triggering a turn
+  function sendLinkMessage(
+    conn: Connection,
+    content: string,
+    details: Record<string, unknown>
+  ): void {
+    pi.sendMessage(
+      {
+        customType: "irc_link",
+        content,
+        display: true,
+        details: { network: conn.state.network, ...details },
+      },
+      { triggerTurn: false }
+    );
+  }
+
+  // Schedule the next reconnect attempt; returns false once the policy gives up
+  function scheduleReconnect(conn: Connection, ctx: ExtensionContext): boolean {
+    const { state } = conn;
+
+    const failed = state.reconnectAttempt || 0;
+    if (!canRetry(failed, conn.reconnectPolicy)) {
+      if (failed > 0) {
+        sendLinkMessage(
+          conn,
+          `IRC link to ${state.host} lost. Gave up reconnecting after ${failed} attempts.`,
+          { state: "failed", host: state.host, attempts: failed }
+        );
+      }
+      state.reconnectAttempt = undefined;
+      return false;
+    }
+
+    const attempt = failed + 1;
+    const delay = getBackoffDelay(attempt, conn.reconnectPolicy);
+    state.reconnectAttempt = attempt;
+    updateStatus(ctx);
+
+    if (attempt === 1) {
+      sendLinkMessage(conn, `IRC link to ${state.host} lost. Reconnecting...`, {
+        state: "lost",
+        host: state.host,
+      });
+      if (ctx.hasUI) {
+        ctx.ui.notify(`IRC connection to ${state.network} lost, reconnecting...`, "warning");
+      }
+    }
+
+    conn.reconnectTimer = setTimeout(() => {
+      conn.reconnectTimer = null;
+      if (connections.get(state.network) !== conn) return;
+      // Re-register with whatever nick we had when the link dropped
+      conn.client.options.nick = state.nick;
+      resetNickAttempts(conn, state.nick);
+      conn.client.connect();
+    }, delay);
+
+    return true;
+  }
+
+  // Setup event handlers once when client is created
+  function setupClient(conn: Connection, ctx: ExtensionContext) {
+    const { client, state } = conn;
+    const network = state.network;
+
+    // Events from a client we've since replaced or disconnected are ignored
+    const isCurrent = () => connections.get(network) === conn;
+
+    // Shared helper for flushing event buffers
+    const flushEventBuffer = (bufferKey: string, buffer: EventBuffer) => {
+      if (buffer.events.length === 0) return;
+
+      const content = networkTag(conn) + buffer.events.join("\n");
+      pi.sendMessage(
+        {
+          customType: "irc_join_part",
+          content,
+          display: true,
+          details: {
+            network,
+            channel: buffer.channel,
+            events: buffer.events,
+            // Earliest and latest event, like the time of other inbound messages
+            time: new Date(Math.min(...buffer.times)).toISOString(),
+            lastTime: new Date(Math.max(...buffer.times)).toISOString(),
+          },
+        },
+        { triggerTurn: false }
+      );
+
+      eventBuffers.delete(bufferKey);
+    };
+
+    // The sender's account from the account tag; with the cap on, no tag means not logged in
+    const messageAccount = (event: any): string | null | undefined =>
+      event.account || (client.network.cap.isEnabled("account-tag") ? null : undefined);
+
+    const asking = new Set<string>(); // Nicks with a trust prompt open
+
+    const askToAllow = async (
+      nick: string,
+      account: string | null | undefined,
+      message: string,
+      channel?: string
+    ): Promise<"allow" | "context" | "ignore"> => {
+      const key = client.caseLower(nick);
+      // Nobody can answer without a UI, and one open prompt per nick keeps floods from stacking
+      if (!ctx.hasUI || asking.has(key)) return "context";
+
+      asking.add(key);
+      try {
+        const who = account ? `${nick} (account ${account})` : nick;
+        const where = `${channel ? `in ${channel}` : "by DM"}${connections.size > 1 ? ` on ${network}` : ""}`;
+        const preview = message.length > 300 ? `${message.slice(0, 300)}…` : message;
+        const choice = await ctx.ui.select(
+          `IRC: untrusted ${who} wrote ${where}:\n${preview}`,
+          Object.values(ASK_CHOICES),
+          { timeout: ASK_TIMEOUT_MS }
+        );
+        if (choice === ASK_CHOICES.trust) {
+          conn.access.trust(nick, account || undefined);
+          return "allow";
+        }
+        if (choice === ASK_CHOICES.allow) return "allow";
+        return choice === ASK_CHOICES.ignore ? "ignore" : "context";
+      } finally {
+        asking.delete(key);
+      }
+    };
+
+    // Check a sender against the access lists, applying the untrusted policy on a miss
+    const authorize = async (
+      nick: string,
+      account: string | null | undefined,
+      message: string,
+      channel?: string
+    ): Promise<Authorization> => {
+      const verdict = await conn.access.check(nick, account);
+      if (verdict.level !== "untrusted") {
+        return { owner: verdict.level === "owner", deliver: true };
+      }
+
+      const policy: UntrustedPolicy = conn.access.untrusted;
+      const answer = policy === "ask" ? await askToAllow(nick, account, message, channel) : policy;
+      if (answer === "allow") return { owner: false, deliver: true };
+
+      const reason = verdict.reason || `${nick} is not trusted`;
+      const outcome = answer === "context" ? "context" : policy === "ask" ? "rejected" : "ignored";
+      const first = conn.access.deny({
+        time: Date.now(),
+        network,
+        nick,
+        target: channel || "DM",
+        reason,
+        outcome,
+      });
+      if (first && policy !== "ask" && ctx.hasUI) {
+        const what = channel ? `Mention in ${channel}` : "DM";
+        const handled = outcome === "context" ? "delivered as context only" : "ignored";
+        ctx.ui.notify(
+          `IRC: ${networkTag(conn)}${what} from ${nick} ${handled}: ${reason}`,
+          "warning"
+        );
+      }
+      return { owner: false, denied: reason, deliver: answer === "context" };
+    };
+
+    // Tell the agent about channels the server wouldn't let us into
+    const reportJoinFailures = (failures: JoinOutcome[]) => {
+      if (failures.length === 0) return;
+      pi.sendMessage(
+        {
+          customType: "irc_join_failed",
+          content:
+            networkTag(conn) +
+            failures.map((f) => `Could not join ${f.channel}: ${f.reason}`).join("\n"),
+          display: true,
+          details: { network, failures },
+        },
+        { triggerTurn: false }
+      );
+    };
+
+    // Join the saved/profile channels and report how it went in one notification
+    const autoJoin = async () => {
+      const outcomes = await Promise.all(state.channels.map((ch) => joinChannel(conn, ch)));
+      if (outcomes.length === 0 || !isCurrent()) return;
+
+      const joined = outcomes.filter((o) => o.joined).map((o) => o.channel);
+      const waiting = outcomes.filter((o) => o.error === "timeout").map((o) => o.channel);
+      // A dropped link is retried by the reconnect, so only real refusals are reported
+      const refused = outcomes.filter(
+        (o) => !o.joined && o.error !== "timeout" && o.error !== "not_sent"
+      );
+
+      if (ctx.hasUI) {
+        const lines: string[] = [];
+        if (joined.length > 0) {
+          lines.push(`Joined ${joined.join(", ")}${connections.size > 1 ? ` on ${network}` : ""}`);
+        }
+        if (waiting.length > 0) lines.push(`No reply yet for ${waiting.join(", ")}`);
+        lines.push(...refused.map((f) => `Could not join ${f.channel}: ${f.reason}`));
+        if (lines.length > 0) {
+          ctx.ui.notify(lines.join("\n"), refused.length > 0 ? "warning" : "info");
+        }
+      }
+      reportJoinFailures(refused);
+    };
+
+    client.on("registered", (event: any) => {
+      if (!isCurrent()) return;
+
+      // The nick we actually got, which may be a fallback
+      const requested = state.nick;
+      state.nick = event.nick || client.user.nick;
+      state.connected = true;
+      persistState(ctx);
+
+      if (!client.caseCompare(state.nick, requested)) {
+        pi.sendMessage(
+          {
+            customType: "irc_nick",
+            content: `${networkTag(conn)}Nick ${requested} was not available on ${network}. You are connected as ${state.nick}.`,
+            display: true,
+            details: { network, nick: state.nick, requested },
+          },
+          { triggerTurn: false }
+        );
+      }
+
+      const attempts = state.reconnectAttempt;
+      if (attempts) {
+        state.reconnectAttempt = undefined;
+        const channels = state.channels.join(", ") || "none";
+        sendLinkMessage(
+          conn,
+          `IRC link to ${state.host} restored after ${attempts} attempt(s) as ${state.nick}. Rejoining: ${channels}`,
+          {
+            state: "restored",
+            host: state.host,
+            nick: state.nick,
+            attempts,
+            channels: state.channels,
+          }
+        );
+      }
+
+      if (ctx.hasUI) {
+        ctx.ui.notify(`IRC connected to ${network} as ${state.nick}`, "info");
+        updateStatus(ctx);
+      }
+
+      void autoJoin();
+    });
+
+    client.on("motd", (event: any) => {
+      if (event.motd?.trim()) {
+        pi.sendMessage(
+          {
+            customType: "irc_motd",
+            content: `${networkTag(conn)}Server MOTD:\n${event.motd}`,
+            display: true,
+            details: { network, motd: event.motd },
+          },
+          { triggerTurn: false }
+        );
+      }
+    });
+
+    client.on("topic", (event: any) => {
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: event.channel,
+        kind: "topic",
+        nick: event.nick || "",
+        text: event.topic,
+      });
+
+      // RPL_TOPIC on join has no setter (RPL_TOPICWHOTIME follows); a TOPIC command does
+      conn.roster.setTopic(
+        event.channel,
+        event.nick
+          ? { text: event.topic, by: event.nick, time: event.time || Date.now() }
+          : { text: event.topic }
+      );
+
+      if (event.topic || event.nick) {
+        let content = `Topic for ${event.channel}: ${event.topic}`;
+        if (!event.topic) {
+          content = `${event.nick} cleared the topic for ${event.channel}`;
+        } else if (event.nick) {
+          content = `Topic for ${event.channel} changed by ${event.nick}: ${event.topic}`;
+        }
+        pi.sendMessage(
+          {
+            customType: "irc_channel_topic",
+            content: networkTag(conn) + content,
+            display: true,
+            details: {
+              network,
+              channel: event.channel,
+              topic: event.topic,
+              by: event.nick,
+              ...messageMeta(event),
+            },
+          },
+          { triggerTurn: false }
+        );
+      }
+    });
+
+    client.on("topicsetby", (event: any) => {
+      conn.roster.setTopic(event.channel, { by: event.nick, time: Number(event.when) * 1000 });
+    });
+
+    client.on("join", (event: any) => {
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: event.channel,
+        kind: "join",
+        nick: event.nick,
+        userhost: event.ident ? `${event.ident}@${event.hostname}` : undefined,
+      });
+
+      // extended-join says which account the nick is logged in to (false: none)
+      if (event.account !== undefined) {
+        conn.access.noteAccount(event.nick, event.account || null);
+      }
+
+      // NAMES and the topic follow our own join by themselves; WHO adds away status (and
+      // accounts, with WHOX), and MODE the channel's flags
+      const self = client.caseCompare(event.nick, client.user.nick);
+      conn.roster.join(
+        event.channel,
+        {
+          nick: event.nick,
+          ident: event.ident,
+          hostname: event.hostname,
+          realname: event.gecos,
+          account: event.account === undefined ? undefined : event.account || null,
+        },
+        self
+      );
+      if (self) {
+        addChannel(conn, event.channel, ctx);
+        void sendQueued(conn, "control", (c) => c.who(event.channel));
+        void sendQueued(conn, "control", (c) => c.raw("MODE", event.channel));
+        requestPlayback(conn, event.channel);
+
+        // Whoever asked for the join reports it; joins nobody waited for (a reply after the
+        // timeout, a server-forced join) are reported here
+        const joined = { channel: event.channel, joined: true };
+        if (!settleJoin(conn, event.channel, joined) && ctx.hasUI) {
+          ctx.ui.notify(
+            `Joined ${event.channel}${connections.size > 1 ? ` on ${network}` : ""}`,
+            "info"
+          );
+        }
+        return;
+      }
+
+      // Buffer join events for other users
+      // FIXME: Buffering logic is duplicated, refactor
+      if (event.nick !== client.user.nick) {
+        const channel = event.channel;
+        const bufferKey = `${network}:${channel}`;
+
+        let buffer = eventBuffers.get(bufferKey);
+        if (!buffer) {
+          buffer = { channel, events: [], times: [], timer: null };
+          eventBuffers.set(bufferKey, buffer);
+        }
+
+        if (buffer.timer) clearTimeout(buffer.timer);
+
+        buffer.events.push(`${event.nick} joined ${channel}`);
+        buffer.times.push(event.time || Date.now());
+        recordHistory({
+          network,
+          time: event.time || Date.now(),
+          target: channel,
+          nick: event.nick,
+          kind: "join",
+          text: "",
+        });
+
+        buffer.timer = setTimeout(() => {
+          flushEventBuffer(bufferKey, buffer!);
+        }, EVENT_BUFFER_DELAY_MS);
+      }
+    });
+
+    client.on("part", (event: any) => {
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: event.channel,
+        kind: "part",
+        nick: event.nick,
+        text: event.message,
+        userhost: event.ident ? `${event.ident}@${event.hostname}` : undefined,
+      });
+
+      if (client.caseCompare(event.nick, client.user.nick)) {
+        conn.roster.drop(event.channel);
+        removeChannel(conn, event.channel, ctx);
+        if (ctx.hasUI) {
+          ctx.ui.notify(
+            `Left ${event.channel}${connections.size > 1 ? ` on ${network}` : ""}`,
+            "info"
+          );
+        }
+        return;
+      }
+      conn.roster.leave(event.channel, event.nick);
+
+      // Buffer part events for users leaving
+      if (event.nick !== client.user.nick) {
+        const channel = event.channel;
+        const bufferKey = `${network}:${channel}`;
+
+        let buffer = eventBuffers.get(bufferKey);
+        if (!buffer) {
+          buffer = { channel, events: [], times: [], timer: null };
+          eventBuffers.set(bufferKey, buffer);
+        }
+
+        if (buffer.timer) clearTimeout(buffer.timer);
+
+        buffer.events.push(`${event.nick} left ${channel}`);
+        buffer.times.push(event.time || Date.now());
+        recordHistory({
+          network,
+          time: event.time || Date.now(),
+          target: channel,
+          nick: event.nick,
+          kind: "part",
+          text: event.message || "",
+        });
+
+        buffer.timer = setTimeout(() => {
+          flushEventBuffer(bufferKey, buffer!);
+        }, EVENT_BUFFER_DELAY_MS);
+      }
+    });
+
+    // Quits only go to transcripts for now
+    client.on("quit", (event: any) => {
+      conn.access.forget(event.nick);
+      conn.roster.quit(event.nick);
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: SERVER_TARGET,
+        kind: "quit",
+        nick: event.nick,
+        text: event.message,
+        userhost: event.ident ? `${event.ident}@${event.hostname}` : undefined,
+      });
+    });
+
+    client.on("kick", (event: any) => {
+      const self = client.caseCompare(event.kicked, client.user.nick);
+      if (self) {
+        conn.roster.drop(event.channel);
+        removeChannel(conn, event.channel, ctx);
+      } else {
+        conn.roster.leave(event.channel, event.kicked);
+      }
+
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: event.channel,
+        kind: "kick",
+        nick: event.nick,
+        kicked: event.kicked,
+        text: event.message,
+      });
+      recordHistory({
+        network,
+        time: event.time || Date.now(),
+        target: event.channel,
+        nick: event.kicked,
+        kind: "kick",
+        text: event.message ? `${event.nick}: ${event.message}` : event.nick,
+      });
+
+      const who = self ? "You were" : `${event.kicked} was`;
+      const reason = event.message ? `: ${event.message}` : "";
+      pi.sendMessage(
+        {
+          customType: "irc_kick",
+          content: `${networkTag(conn)}${who} kicked from ${event.channel} by ${event.nick}${reason}`,
+          display: true,
+          details: {
+            network,
+            channel: event.channel,
+            nick: event.kicked,
+            by: event.nick,
+            reason: event.message,
+            self,
+            ...messageMeta(event),
+          },
+        },
+        { triggerTurn: false }
+      );
+      if (self && ctx.hasUI) {
+        ctx.ui.notify(
+          `IRC: ${networkTag(conn)}kicked from ${event.channel} by ${event.nick}${reason}`,
+          "warning"
+        );
+      }
+    });
+
+    // INVITE: tell the agent, and follow it when the profile's autoJoinOnInvite allows
+    client.on("invite", async (event: any) => {
+      if (!client.caseCompare(event.invited, client.user.nick)) return; // invite-notify
+      const channel = event.channel;
+
+      const already = !!conn.roster.channel(channel);
+      let follow = !already && conn.autoJoinOnInvite === "always";
+      // Without an access block everyone counts as trusted, so "trusted" follows nobody
+      if (!already && conn.autoJoinOnInvite === "trusted" && conn.access.enabled) {
+        const verdict = await conn.access.check(event.nick, messageAccount(event));
+        follow = verdict.level !== "untrusted";
+      }
+      const outcome = follow ? await joinChannel(conn, channel) : undefined;
+
+      let result = "Not joining automatically; use join to accept.";
+      if (already) {
+        result = "You are already there.";
+      } else if (outcome?.joined) {
+        result = `Joined ${outcome.channel}.`;
+      } else if (outcome) {
+        result = `Could not join: ${outcome.reason}.`;
+      }
+      pi.sendMessage(
+        {
+          customType: "irc_invite",
+          content: `${networkTag(conn)}${event.nick} invited you to ${channel}. ${result}`,
+          display: true,
+          details: {
+            network,
+            channel,
+            nick: event.nick,
+            followed: follow,
+            joined: outcome?.joined,
+            ...messageMeta(event),
+          },
+        },
+        { triggerTurn: false }
+      );
+    });
+
+    client.on("irc error", (event: any) => {
+      // A line we sent was refused, so its echo will never come
+      if (SEND_ERRORS.has(event.error)) {
+        conn.echoes.refuse(event.channel || event.nick, event.reason);
+        return;
+      }
+      if (!event.channel) return;
+
+      // We aren't where we thought we were
+      if (event.error === "not_on_channel") {
+        conn.roster.drop(event.channel);
+        removeChannel(conn, event.channel, ctx);
+        return;
+      }
+
+      const reason = JOIN_ERRORS.get(event.error);
+      if (!reason) return;
+      removeChannel(conn, event.channel, ctx);
+      const outcome = { channel: event.channel, joined: false, error: event.error, reason };
+      if (!settleJoin(conn, event.channel, outcome)) reportJoinFailures([outcome]);
+    });
+
+    // ERR_LINKCHANNEL: the server sent us to another channel, whose JOIN arrives on its own
+    client.on("channel_redirect", (event: any) => {
+      removeChannel(conn, event.from, ctx);
+      settleJoin(conn, event.from, {
+        channel: event.from,
+        joined: false,
+        error: "redirected",
+        reason: `the server forwarded you to ${event.to}`,
+      });
+    });
+
+    // NOTICEs never trigger turns: by convention nothing replies to them automatically,
+    // which is what keeps bots from answering each other forever
+    const onNotice = (event: any) => {
+      const isDM = !client.network.isChannelName(event.target);
+      const from = event.nick || event.hostname || network;
+      const target = isDM ? event.nick || SERVER_TARGET : event.target;
+
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target,
+        kind: "notice",
+        nick: from,
+        text: event.message,
+      });
+      if (!event.nick) return; // Server notices (connection setup, lookups) are transcript-only
+
+      // NickServ, ChanServ & co. talk to the human, not the agent
+      if (isServiceNotice(event)) {
+        if (ctx.hasUI) {
+          ctx.ui.notify(`IRC ${networkTag(conn)}-${event.nick}- ${event.message}`, "info");
+        }
+        return;
+      }
+
+      recordHistory({
+        network,
+        time: event.time || Date.now(),
+        target,
+        nick: event.nick,
+        kind: "notice",
+        text: event.message,
+      });
+      const where = isDM ? "" : `:${event.target}`;
+      pi.sendMessage(
+        {
+          customType: "irc_notice",
+          content: `${networkTag(conn)}-${event.nick}${where}- ${event.message}`,
+          display: true,
+          details: {
+            network,
+            nick: event.nick,
+            ...(!isDM && { channel: event.target }),
+            message: event.message,
+            ...messageMeta(event),
+          },
+        },
+        { triggerTurn: false }
+      );
+    };
+
+    // The roster's member lists come from NAMES; WHO fills in away status and accounts
+    client.on("userlist", (event: any) => {
+      conn.roster.sync(event.channel, event.users);
+    });
+
+    client.on("wholist", (event: any) => {
+      for (const user of event.users) {
+        conn.roster.update({
+          nick: user.nick,
+          ident: user.ident,
+          hostname: user.hostname,
+          realname: user.real_name,
+          // WHOX only; "" = not logged in
+          account: user.account === undefined ? undefined : user.account || null,
+          away: user.away,
+        });
+      }
+    });
+
+    // Prefix modes (op, voice) belong to members, list modes (bans, exceptions) aren't
+    // tracked, and the rest are channel flags like +t or +k
+    const applyChannelModes = (channel: string, modes: { mode: string; param?: string }[]) => {
+      const prefixModes = (client.network.options.PREFIX || []).map((p: any) => p.mode);
+      const listModes: string = client.network.options.CHANMODES?.[0] ?? "beI";
+      for (const { mode, param } of modes) {
+        const [sign, letter] = mode;
+        if (prefixModes.includes(letter)) {
+          if (param) conn.roster.setMode(channel, param, letter, sign === "+");
+        } else if (!listModes.includes(letter)) {
+          conn.roster.setFlag(channel, letter, sign === "+", param);
+        }
+      }
+    };
+
+    client.on("mode", (event: any) => {
+      if (client.network.isChannelName(event.target)) {
+        applyChannelModes(event.target, event.modes);
+      }
+    });
+
+    // RPL_CHANNELMODEIS, asked for when we join
+    client.on("channel info", (event: any) => {
+      if (event.modes) applyChannelModes(event.channel, event.modes);
+    });
+
+    // away-notify, and RPL_AWAY when we message or WHOIS someone who is away
+    client.on("away", (event: any) => {
+      conn.roster.update({ nick: event.nick, away: true, awayMessage: event.message });
+    });
+
+    client.on("back", (event: any) => {
+      conn.roster.update({ nick: event.nick, away: false });
+    });
+
+    // Settles every WHOIS waiting on the nick
+    client.on("whois", (event: any) => {
+      const waiters = conn.whoisWaiters.get(client.caseLower(event.nick)) || [];
+      waiters.forEach((finish) => finish(event));
+    });
+
+    // CTCP queries get short answers that say what we are; replies go through the flood limiter
+    client.on("ctcp request", (event: any) => {
+      if (!event.nick) return;
+      const [type, ...args] = (event.message as string).split(" ");
+      const answers: Record<string, () => string> = {
+        VERSION: () => CTCP_VERSION,
+        PING: () => args.join(" "),
+        TIME: () => new Date().toString(),
+        CLIENTINFO: () => "ACTION CLIENTINFO PING TIME VERSION",
+      };
+      const answer = answers[type.toUpperCase()];
+      if (answer) {
+        void sendQueued(conn, "control", (c) => c.ctcpResponse(event.nick, type, answer()));
+      }
+    });
+
+    client.on("message", (event: any) => {
+      // Played-back history is collected per batch and delivered as one backlog at its end
+      if (event.batch && PLAYBACK_BATCHES.has(event.batch.type)) {
+        let backlog = conn.backlogs.get(event.batch.id);
+        if (!backlog) {
+          backlog = { channel: event.batch.params?.[0] || event.target, entries: [] };
+          conn.backlogs.set(event.batch.id, backlog);
+        }
+        backlog.entries.push({
+          network,
+          time: event.time || Date.now(),
+          target: backlog.channel,
+          nick: event.nick || event.hostname || network,
+          kind: event.type === "privmsg" ? "message" : event.type,
+          text: event.message,
+          ...(client.caseCompare(event.nick || "", state.nick) && { outbound: true }),
+        });
+        return;
+      }
+
+      // Our own lines relayed back by echo-message: they confirm a send, nothing more
+      if (
+        client.caseCompare(event.nick || "", state.nick) &&
+        client.network.cap.isEnabled("echo-message")
+      ) {
+        conn.echoes.confirm({
+          target: event.target,
+          kind: event.type,
+          text: event.message,
+          label: event.tags?.label,
+          time: event.time,
+          msgid: event.tags?.msgid,
+        });
+        return;
+      }
+
+      if (event.type === "notice") {
+        onNotice(event);
+        return;
+      }
+
+      const isDM = client.caseCompare(event.target, state.nick);
+      const kind: MessageBuffer["kind"] = event.type === "action" ? "action" : "privmsg";
+      const bufferKey = `${network}:${event.target}:${event.nick}:${kind}`;
+
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: isDM ? event.nick : event.target,
+        kind: kind === "action" ? "action" : "message",
+        nick: event.nick,
+        text: event.message,
+      });
+
+      if (!isDM) {
+        state.lastSeen[event.target] = event.time || Date.now();
+        persistState(ctx);
+      }
+
+      // What the agent sees: actions as "* nick waves", one per line
+      const render = (buffer: MessageBuffer, message: string) =>
+        buffer.kind === "action"
+          ? message
+              .split("\n")
+              .map((line) => `* ${buffer.nick} ${line}`)
+              .join("\n")
+          : message;
+
+      // Server-time tells us when a message was really sent: say so when it arrives late
+      const late = (buffer: MessageBuffer) => {
+        const age = Date.now() - Date.parse(buffer.meta.time);
+        return age > LATE_MESSAGE_MS ? ` (sent ${formatDuration(Math.floor(age / 1000))} ago)` : "";
+      };
+
+      const deliverDM = async (buffer: MessageBuffer, message: string) => {
+        const content = `${networkTag(conn)}IRC DM from ${buffer.nick}${late(buffer)}: ${render(buffer, message)}`;
+        const auth = await authorize(buffer.nick, buffer.account, message);
+        if (auth.denied && !auth.deliver) return;
+
+        const verdict = auth.denied ? null : conn.guard.check(buffer.nick);
+        if (verdict?.allowed) {
+          // Owners interrupt the current turn; other trusted senders wait for it to finish
+          pi.sendUserMessage(content, { deliverAs: auth.owner ? "steer" : "followUp" });
+          return;
+        }
+
+        // Untrusted or over budget: still deliver, but as context instead of steering
+        if (verdict) reportGuardTrip(conn, verdict, buffer.nick, ctx);
+        pi.sendMessage(
+          {
+            customType: buffer.kind === "action" ? "irc_dm_action" : "irc_dm",
+            content,
+            display: true,
+            details: {
+              network,
+              nick: buffer.nick,
+              message,
+              ...buffer.meta,
+              ...(auth.denied && { untrusted: auth.denied }),
+              ...(verdict && { guarded: verdict.reason }),
+            },
+          },
+          { triggerTurn: false }
+        );
+      };
+
+      const deliverChannelMessage = async (buffer: MessageBuffer, message: string) => {
+        const content =
+          buffer.kind === "action"
+            ? `${networkTag(conn)}[${buffer.target}]${late(buffer)} ${render(buffer, message)}`
+            : `${networkTag(conn)}[${buffer.target}]${late(buffer)} ${buffer.nick}: ${message}`;
+        const policy = conn.triggers.forChannel(buffer.target);
+        let wantsTurn = shouldTrigger(policy, {
+          nick: buffer.nick,
+          message,
+          mentioned: conn.mentions.matches(message, state.nick, (text) => client.caseLower(text)),
+        });
+
+        // Untrusted senders don't get a turn; "context" still shows what they said
+        const auth = wantsTurn
+          ? await authorize(buffer.nick, buffer.account, message, buffer.target)
+          : null;
+        const asContext = !!auth?.denied && auth.deliver;
+        if (auth?.denied) wantsTurn = false;
+
+        const verdict = wantsTurn ? conn.guard.check(buffer.nick, buffer.target) : null;
+        if (verdict && !verdict.allowed) {
+          reportGuardTrip(conn, verdict, buffer.nick, ctx, buffer.target);
+        }
+        // Messages the policy doesn't care about may be hidden or not delivered at all
+        if (wantsTurn || asContext || policy.others !== "drop") {
+          pi.sendMessage(
+            {
+              customType: buffer.kind === "action" ? "irc_channel_action" : "irc_channel_message",
+              content,
+              display: wantsTurn || asContext || policy.others === "show",
+              details: {
+                network,
+                channel: buffer.target,
+                nick: buffer.nick,
+                message,
+                ...buffer.meta,
+                ...(auth?.denied && { untrusted: auth.denied }),
+                ...(verdict?.reason && { guarded: verdict.reason }),
+              },
+            },
+            { triggerTurn: !!verdict?.allowed }
+          );
+        }
+      };
+
+      const flushBuffer = (buffer: MessageBuffer) => {
+        // Removed up front: authorizing may wait on WHOIS or the human
+        messageBuffers.delete(bufferKey);
+        if (buffer.messages.length === 0) return;
+
+        const combinedMessage = buffer.messages.join("\n");
+        const deliver = isDM ? deliverDM : deliverChannelMessage;
+        deliver(buffer, combinedMessage).catch((error: any) => {
+          if (ctx.hasUI) {
+            ctx.ui.notify(
+              `IRC: could not deliver message from ${buffer.nick}: ${error.message}`,
+              "error"
+            );
+          }
+        });
+      };
+
+      let buffer = messageBuffers.get(bufferKey);
+
+      if (!buffer) {
+        buffer = {
+          nick: event.nick,
+          target: event.target,
+          kind,
+          account: messageAccount(event),
+          meta: messageMeta(event),
+          messages: [],
+          timer: null,
+        };
+        messageBuffers.set(bufferKey, buffer);
+      }
+
+      if (buffer.timer) {
+        clearTimeout(buffer.timer);
+      }
+
+      buffer.messages.push(event.message);
+      recordHistory({
+        network,
+        time: event.time || Date.now(),
+        target: isDM ? event.nick : event.target,
+        nick: event.nick,
+        kind: kind === "action" ? "action" : "message",
+        text: event.message,
+      });
+
+      buffer.timer = setTimeout(() => {
+        flushBuffer(buffer!);
+      }, MESSAGE_BUFFER_DELAY_MS);
+    });
+
+    client.on("batch end", (event: any) => {
+      const backlog = conn.backlogs.get(event.id);
+      if (!backlog) return;
+      conn.backlogs.delete(event.id);
+      deliverBacklog(backlog.channel, backlog.entries);
+    });
+
+    // One message for a channel's played-back history; it never triggers a turn, however
+    // many mentions it holds, but the agent can catch up before it next speaks there
+    const deliverBacklog = (channel: string, played: HistoryEntry[]) => {
+      const sorted = [...played].sort((a, b) => a.time - b.time);
+      const entries = sorted.slice(-conn.playback.limit);
+      for (const entry of entries) recordHistory(entry);
+
+      const last = entries[entries.length - 1].time;
+      const seen = Object.keys(state.lastSeen).find((c) => client.caseCompare(c, channel));
+      state.lastSeen[seen || channel] = Math.max(state.lastSeen[seen || channel] || 0, last);
+      persistState(ctx);
+
+      const mentions = entries.filter(
+        (e) =>
+          !e.outbound && conn.mentions.matches(e.text, state.nick, (text) => client.caseLower(text))
+      ).length;
+      const omitted = sorted.length - entries.length;
+      pi.sendMessage(
+        {
+          customType: "irc_backlog",
+          content: networkTag(conn) + summarizeBacklog(channel, entries, mentions, omitted),
+          display: true,
+          details: {
+            network,
+            channel,
+            count: entries.length,
+            omitted,
+            mentions,
+            from: new Date(entries[0].time).toISOString(),
+            to: new Date(last).toISOString(),
+            nicks: [...new Set(entries.map((e) => e.nick))],
+          },
+        },
+        { triggerTurn: false }
+      );
+    };
+
+    client.on("close", () => {
+      if (!isCurrent()) return;
+
+      // Anything still queued was meant for the old link, and we'll rejoin to a new roster
+      conn.outbound.clear();
+      conn.roster.clear();
+      conn.echoes.clear();
+      conn.backlogs.clear();
+
+      const wasLinked = state.connected || !!state.reconnectAttempt;
+      state.connected = false;
+      if (wasLinked && scheduleReconnect(conn, ctx)) return;
+
+      // Out of retries: the entry stays registered (and saved) until disconnected
+      if (ctx.hasUI) {
+        ctx.ui.notify(`IRC connection to ${network} closed`, "warning");
+      }
+      updateStatus(ctx);
+    });
+
+    client.on("socket error", (err: any) => {
+      if (ctx.hasUI) {
+        ctx.ui.notify(`IRC error on ${network}: ${err.message}`, "error");
+      }
+    });
+
+    client.on("sasl failed", (event: any) => {
+      if (ctx.hasUI) {
+        ctx.ui.notify(`IRC SASL authentication failed on ${network}: ${event.reason}`, "warning");
+      }
+    });
+
+    // account-notify: a nick logged in or out of services
+    client.on("account", (event: any) => {
+      conn.access.noteAccount(event.nick, event.account || null);
+      conn.roster.update({ nick: event.nick, account: event.account || null });
+    });
+
+    client.on("nick", (event: any) => {
+      conn.access.forget(event.nick);
+      conn.access.forget(event.new_nick);
+      conn.roster.rename(event.nick, event.new_nick);
+      logTranscript(conn, {
+        time: event.time || Date.now(),
+        target: SERVER_TARGET,
+        kind: "nick",
+        nick: event.nick,
+        newNick: event.new_nick,
+      });
+
+      // Our own nick changes, forced or requested; mentions follow state.nick
+      if (client.caseCompare(event.nick, state.nick)) {
+        state.nick = event.new_nick;
+        persistState(ctx);
+        if (ctx.hasUI) {
+          ctx.ui.notify(`Nick on ${network} changed to ${event.new_nick}`, "info");
+          updateStatus(ctx);
+        }
+      }
+    });
+
+    // ERR_NICKNAMEINUSE / ERR_ERRONEUSNICKNAME (e.g. longer than the server's NICKLEN)
+    const onNickRejected = (event: any) => {
+      if (!isCurrent()) return;
+
+      // A change_nick the server refused: we keep the nick we have
+      if (state.connected) {
+        pi.sendMessage(
+          {
+            customType: "irc_nick",
+            content: `${networkTag(conn)}Could not change nick to ${event.nick}: ${event.reason}. You are still ${state.nick}.`,
+            display: true,
+            details: { network, nick: state.nick, rejected: event.nick, reason: event.reason },
+          },
+          { triggerTurn: false }
+        );
+        return;
+      }
+
+      // Still registering: move on to the next candidate
+      conn.triedNicks.add(client.caseLower(event.nick));
+      const next = nextNick(conn);
+      if (!next) {
+        if (ctx.hasUI) {
+          ctx.ui.notify(`IRC: no usable nick on ${network} (last tried ${event.nick})`, "error");
+        }
+        client.quit();
+        return;
+      }
+      conn.triedNicks.add(client.caseLower(next));
+      client.changeNick(next);
+    };
+
+    client.on("nick in use", onNickRejected);
+    client.on("nick invalid", onNickRejected);
+  }
+
+  // =============================================================================
+  // Action Handlers
+  // =============================================================================
 
   async function handleConnect(
     params: any,
     ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (ircClient && currentState?.connected) {
+    let opts: ConnectOptions;
+    try {
+      opts = await resolveConnectOptions(params);
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `Error: ${error.message}` }],
+        details: { error: "profile_error", profile: params.profile },
+      };
+    }
+
+    if (!opts.host || !opts.nick) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: "Error: 'connect' requires a 'profile' or both 'host' and 'nickname' parameters",
+          },
+        ],
+        details: { error: "missing_connect_params" },
+      };
+    }
+
+    const { network, host, port, channels } = opts;
+
+    const existing = connections.get(network);
+    if (existing && (existing.state.connected || existing.state.reconnectAttempt)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Already connected to ${network} as ${existing.state.nick}`,
+          },
+        ],
+        details: { error: "already_connected", network },
+      };
+    }
+
+    let conn: Connection;
+    try {
+      conn = await startConnection(opts, ctx);
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `Error: ${error.message}` }],
+        details: {
+          error: error instanceof TLSMaterialError ? "tls_error" : "connect_error",
+          network,
+        },
+      };
+    }
+    const client = conn.client;
+
+    return new Promise<AgentToolResult<unknown>>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        reject(new Error(`Connection timeout (${CONNECT_TIMEOUT_MS / 1000}s)`));
+      }, CONNECT_TIMEOUT_MS);
+
+      const onRegistered = () => {
+        clearTimeout(timeout);
+        client.removeListener("registered", onRegistered);
+        client.removeListener("socket error", onError);
+
+        // Set by the registered handler, which may have fallen back to another nick
+        const nick = conn.state.nick;
+        const fallback = nick !== opts.nick ? ` (${opts.nick} was not available)` : "";
+
+        resolve({
+          content: [
+            {
+              type: "text",
+              text: `✅ Connected to ${host}:${port} as ${nick}${fallback} (network: ${network})\nJoining channels: ${channels.join(", ")}`,
+            },
+          ],
+          details: {
+            network,
+            host,
+            port,
+            nick,
+            requestedNick: opts.nick,
+            channels,
+            profile: opts.profileName,
+            connected: true,
+          },
+        });
+      };
+
+      const onError = (err: any) => {
+        clearTimeout(timeout);
+        client.removeListener("registered", onRegistered);
+        client.removeListener("socket error", onError);
+
+        reject(new Error(`Connection failed: ${err.message}`));
+      };
+
+      client.once("registered", onRegistered);
+      client.once("socket error", onError);
+    }).catch((error) => {
+      closeConnection(conn);
+      updateStatus(ctx);
+
+      return {
+        content: [{ type: "text", text: `Error: ${error.message}` }],
+        details: { error: error.message, network },
+      };
+    });
+  }
+
+  async function handleDisconnect(
+    params: any,
+    ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+    const network = conn.state.network;
+
+    closeConnection(conn, "Disconnecting");
+
+    // An explicit disconnect means the next session should not resume this network
+    if (connections.size > 0) {
+      await flushState(ctx);
+    } else {
+      if (stateSaveTimer) {
+        clearTimeout(stateSaveTimer);
+        stateSaveTimer = null;
+      }
+      await clearState();
+    }
+
+    updateStatus(ctx);
+
+    return {
+      content: [{ type: "text", text: `Disconnected from IRC (${network})` }],
+      details: { network },
+    };
+  }
+
+  async function handleSend(params: any, ctx: ExtensionContext): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+    const network = conn.state.network;
+
+    const target = params.target as string;
+    const message = params.message as string;
+
+    if (!target) {
+      return {
+        content: [
+          { type: "text", text: "Error: 'send' requires a 'target' (channel or username)" },
+        ],
+        details: { error: "missing_target" },
+      };
+    }
+
+    if (!message) {
+      return {
+        content: [{ type: "text", text: "Error: 'send' requires a 'message'" }],
+        details: { error: "missing_message" },
+      };
+    }
+
+    const nick = conn.state.nick;
+    const kind = (params.kind as SendKind | undefined) || "privmsg";
+    if (!Object.keys(SEND_KINDS).includes(kind)) {
+      return {
+        content: [{ type: "text", text: "Error: 'kind' must be one of: privmsg, notice, action" }],
+        details: { error: "invalid_kind", kind },
+      };
+    }
+    const approver = params[SENT_BY_HUMAN] ? undefined : ctx;
+    const {
+      sent: lines,
+      total,
+      echoed,
+      refused,
+      screen,
+      approval,
+    } = await sendLines(conn, target, message, kind, approver);
+    const withheld = describeFindings(screen.findings);
+
+    if (approval && !approval.approved) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Not sent to ${target} (approval required): ${approval.reason}`,
+          },
+        ],
+        details: { error: "not_approved", network, target, approval },
+      };
+    }
+
+    if (screen.blocked) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Not sent to ${target}, the message looks like it contains secrets: ${withheld}. Remove them and send again.`,
+          },
+        ],
+        details: { error: "secrets_blocked", network, target, withheld: screen.findings },
+      };
+    }
+
+    if (refused) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Not sent to ${target}, rate limit reached: ${refused}. Wait before sending more.`,
+          },
+        ],
+        details: { error: "rate_limited", network, target, reason: refused, lines: total },
+      };
+    }
+
+    if (lines === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Nothing sent to ${target} (empty message or connection lost)`,
+          },
+        ],
+        details: { error: "not_sent", network, target, lines },
+      };
+    }
+
+    // With echo-message, only lines the server relayed back count as delivered
+    const confirmed = echoed?.flatMap((e) => (e.delivered ? [e] : []));
+    const failures = [...new Set(echoed?.flatMap((e) => (e.delivered ? [] : [e.reason])))];
+    if (confirmed?.length === 0) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Not delivered to ${target}: ${failures.join("; ")}`,
+          },
+        ],
+        details: { error: "not_delivered", network, target, lines, reasons: failures },
+      };
+    }
+
+    // Logs hold what actually went out, at the time the server gave it
+    const sentAt = confirmed?.[0].time || Date.now();
+    const logKind = kind === "privmsg" ? "message" : kind;
+    logTranscript(conn, {
+      time: sentAt,
+      target,
+      kind: logKind,
+      nick,
+      text: screen.text,
+    });
+    recordHistory({
+      network,
+      time: sentAt,
+      target,
+      nick,
+      kind: logKind,
+      text: screen.text,
+      outbound: true,
+    });
+
+    if (lines < total) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Connection lost after sending ${lines} of ${total} lines to ${target}`,
+          },
+        ],
+        details: { error: "partial_send", network, target, lines, total },
+      };
+    }
+
+    const lineInfo = lines > 1 ? ` (${lines} lines)` : "";
+    const echoInfo =
+      confirmed && confirmed.length < lines
+        ? `\nThe server only confirmed ${confirmed.length} of ${lines} lines: ${failures.join("; ")}`
+        : "";
+    const redactInfo = withheld
+      ? `\nRedacted before sending, looked like secrets: ${withheld}`
+      : "";
+    const approvalInfo = approval?.edited
+      ? "\nThe human edited your message before approving it; the text above is what was sent."
+      : approval
+        ? `\nApproved by ${approval.by === "human" ? "the human" : "the headless policy"}.`
+        : "";
+    return {
+      content: [
+        {
+          type: "text",
+          text: `${kind === "privmsg" ? "Sent" : `Sent ${kind}`} to ${target}${lineInfo}: ${screen.text}${echoInfo}${redactInfo}${approvalInfo}`,
+        },
+      ],
+      details: {
+        network,
+        target,
+        kind,
+        message: screen.text,
+        lines,
+        // "echo": confirmed by the server's echo-message; "local": written to the socket
+        delivery: confirmed ? "echo" : "local",
+        ...(confirmed && {
+          confirmed: confirmed.length,
+          time: new Date(sentAt).toISOString(),
+          msgids: confirmed.flatMap((e) => (e.msgid ? [e.msgid] : [])),
+        }),
+        ...(withheld && { redacted: screen.findings }),
+        ...(approval && { approval }),
+      },
+    };
+  }
+
+  async function handleChangeNick(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+
+    const newNick = params.new_nick as string;
+
+    if (!newNick) {
+      return {
+        content: [{ type: "text", text: "Error: 'change_nick' requires a 'new_nick' parameter" }],
+        details: { error: "missing_new_nick" },
+      };
+    }
+
+    const maxLength = serverNickLength(conn);
+    if (maxLength !== null && newNick.length > maxLength) {
+      const shortened = newNick.substring(0, maxLength);
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Nickname "${newNick}" is too long for ${conn.state.network} (NICKLEN ${maxLength}). Suggested: "${shortened}".`,
+          },
+        ],
+        details: { error: "nickname_too_long", nickname: newNick, suggested: shortened, maxLength },
+      };
+    }
+
+    const oldNick = conn.state.nick;
+    void sendQueued(conn, "control", (c) => c.changeNick(newNick));
+
+    return {
+      content: [{ type: "text", text: `Requesting nickname change from ${oldNick} to ${newNick}` }],
+      details: { network: conn.state.network, oldNick, newNick },
+    };
+  }
+
+  // Connections info and list_channels report on: the named network, or all of them
+  function selectConnections(params: any): ConnectionLookup | { conns: Connection[] } {
+    if (params.network) {
+      return lookupLiveConnection(params);
+    }
+
+    const conns = [...connections.values()].filter((c) => c.state.connected);
+    if (conns.length === 0) {
+      return {
+        error: {
+          content: [
+            {
+              type: "text",
+              text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
+            },
+          ],
+          details: { error: "not_connected" },
+        },
+      };
+    }
+    return { conns };
+  }
+
+  async function handleInfo(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const selected = selectConnections(params);
+    if ("error" in selected) return selected.error;
+    const conns = "conn" in selected ? [selected.conn] : selected.conns;
+
+    const sections = conns.map(({ state, outbound }) => {
+      const queue = outbound.depth();
+      return `You are connected to IRC as: ${state.nick}
+Network: ${state.network}
+Server: ${state.host}:${state.port}
+Your channels: ${state.channels.join(", ") || "none"}
+Outbound queue: ${queue.control + queue.chat} pending (${queue.chat} chat, ${queue.control} control)`;
+    });
+
+    const details = conns.map(({ state, outbound }) => ({
+      network: state.network,
+      host: state.host,
+      port: state.port,
+      nick: state.nick,
+      channels: state.channels,
+      queue: outbound.depth(),
+    }));
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      details: conns.length === 1 ? details[0] : { connections: details },
+    };
+  }
+
+  async function handleListChannels(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const selected = selectConnections(params);
+    if ("error" in selected) return selected.error;
+    const conns = "conn" in selected ? [selected.conn] : selected.conns;
+
+    const output = conns
+      .map(
+        ({ state }) =>
+          `Connected to ${state.host} (${state.network}) as ${state.nick}\nChannels: ${state.channels.join(", ") || "none"}`
+      )
+      .join("\n\n");
+
+    const details = conns.map(({ state }) => ({
+      network: state.network,
+      host: state.host,
+      nick: state.nick,
+      channels: state.channels,
+    }));
+
+    return {
+      content: [{ type: "text", text: output }],
+      details: conns.length === 1 ? details[0] : { connections: details },
+    };
+  }
+
+  // One roster entry: "@alice (you, away: lunch, account alice)"
+  function formatMember(conn: Connection, member: RosterMember): string {
+    const notes: string[] = [];
+    if (conn.client.caseCompare(member.nick, conn.state.nick)) notes.push("you");
+    if (member.away) notes.push(member.awayMessage ? `away: ${member.awayMessage}` : "away");
+    if (member.account && !conn.client.caseCompare(member.account, member.nick)) {
+      notes.push(`account ${member.account}`);
+    } else if (member.account === null) {
+      notes.push("not logged in");
+    }
+    return `${member.prefix}${member.nick}${notes.length > 0 ? ` (${notes.join(", ")})` : ""}`;
+  }
+
+  async function handleNames(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+
+    const joined = conn.roster.channels();
+    let channels = joined;
+    if (params.channel) {
+      const channel = conn.roster.channel(params.channel);
+      if (!channel) {
+        const names = joined.map((c) => c.name);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Not in ${params.channel} on ${conn.state.network}. Member lists are kept for joined channels: ${names.join(", ") || "none"}`,
+            },
+          ],
+          details: { error: "not_in_channel", channel: params.channel, channels: names },
+        };
+      }
+      channels = [channel];
+    }
+
+    if (channels.length === 0) {
+      return {
+        content: [{ type: "text", text: `Not in any channels on ${conn.state.network}` }],
+        details: { network: conn.state.network, channels: [] },
+      };
+    }
+
+    const sections = channels.map(({ name, synced, members }) => {
+      const away = members.filter((m) => m.away).length;
+      const header = `${name}: ${members.length} member${members.length === 1 ? "" : "s"}${away ? ` (${away} away)` : ""}${synced ? "" : " (member list still loading)"}`;
+      return [header, ...members.map((m) => formatMember(conn, m))].join("\n");
+    });
+
+    return {
+      content: [{ type: "text", text: sections.join("\n\n") }],
+      details: {
+        network: conn.state.network,
+        // Keys are secrets, as in 'mode'
+        channels: channels.map(({ modes: { k: _key, ...modes }, ...channel }) => ({
+          ...channel,
+          modes,
+        })),
+      },
+    };
+  }
+
+  // Seconds as "42s", "5m" or "3h 20m"
+  function formatDuration(seconds: number): string {
+    if (seconds < 60) return `${seconds}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  }
+
+  async function handleWhois(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+    const network = conn.state.network;
+
+    const nick = params.nick as string;
+    if (!nick) {
+      return {
+        content: [{ type: "text", text: "Error: 'whois' requires a 'nick' parameter" }],
+        details: { error: "missing_nick" },
+      };
+    }
+
+    const event = await whois(conn, nick);
+    if (event?.error === "not_found") {
+      return {
+        content: [{ type: "text", text: `${nick} is not online on ${network}` }],
+        details: { network, nick, online: false },
+      };
+    }
+
+    // A reply refreshes what the roster knows; without one, the roster is all we have
+    if (event) {
+      const account = event.account || null;
+      conn.access.noteAccount(event.nick, account);
+      conn.roster.update({
+        nick: event.nick,
+        ident: event.ident,
+        hostname: event.hostname,
+        realname: event.real_name,
+        account,
+        away: !!event.away,
+        awayMessage: event.away || undefined,
+      });
+    }
+    const known = conn.roster.user(event?.nick || nick);
+    if (!event && !known) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: No WHOIS reply for ${nick} on ${network}, and they share no channel with you`,
+          },
+        ],
+        details: { error: "no_reply", network, nick },
+      };
+    }
+
+    const user: RosterUser = known || { nick: event.nick };
+    const lines = [
+      `${user.nick}${user.ident ? ` (${user.ident}@${user.hostname})` : ""}${user.realname ? `: ${user.realname}` : ""}`,
+      `Account: ${user.account || (user.account === null ? "not logged in" : "unknown")}`,
+      `Status: ${user.away ? `away${user.awayMessage ? ` (${user.awayMessage})` : ""}` : user.away === false ? "here" : "unknown"}`,
+    ];
+    if (event?.channels) lines.push(`Channels: ${event.channels.trim()}`);
+    if (known && known.channels.length > 0) {
+      lines.push(`Shared channels: ${known.channels.join(", ")}`);
+    }
+    if (event?.idle) {
+      const since = event.logon
+        ? `, signed on ${new Date(Number(event.logon) * 1000).toISOString()}`
+        : "";
+      lines.push(`Idle: ${formatDuration(Number(event.idle))}${since}`);
+    }
+    if (event?.server) {
+      lines.push(`Server: ${event.server}${event.server_info ? ` (${event.server_info})` : ""}`);
+    }
+    if (event?.bot) lines.push("Marked as a bot");
+    if (!event) lines.push("(No WHOIS reply in time; this is what the channel roster knows)");
+
+    return {
+      content: [{ type: "text", text: lines.join("\n") }],
+      details: {
+        network,
+        nick: user.nick,
+        online: true,
+        user: known || user,
+        ...(event && {
+          whois: {
+            channels: event.channels,
+            idle: event.idle,
+            logon: event.logon,
+            server: event.server,
+            bot: event.bot,
+          },
+        }),
+      },
+    };
+  }
+
+  async function handleJoin(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
+
+    const channel = params.channel as string;
+
+    if (!channel) {
       return {
-        content: [{ type: "text", text: `Already connected as ${currentState.nick}` }],
-        details: { error: "already_connected" },
+        content: [{ type: "text", text: "Error: 'join' requires a 'channel' parameter" }],
+        details: { error: "missing_channel" },
       };
     }
 
-    const host = params.host as string;
-    const port = (params.port as number) || 6667;
-    const nick = params.nickname as string;
-    const channels = ((params.channels as string[]) || []).map((ch) =>
-      ch.startsWith("#") ? ch : `#${ch}`
-    );
+    // Ensure channel starts with #
+    const normalizedChannel = channel.startsWith("#") ? channel : `#${channel}`;
+    const network = conn.state.network;
+
+    if (conn.roster.channel(normalizedChannel)) {
+      return {
+        content: [{ type: "text", text: `Already in ${normalizedChannel}` }],
+        details: { network, channel: normalizedChannel },
+      };
+    }
+
+    // The channel only counts as joined once the server says so
+    const key = params.key as string | undefined;
+    const outcome = await joinChannel(conn, normalizedChannel, key);
+
+    if (outcome.joined) {
+      // Remembered for rejoins after a reconnect
+      if (key) conn.channelKeys[outcome.channel] = key;
+      return {
+        content: [{ type: "text", text: `Joined ${outcome.channel}` }],
+        details: { network, channel: outcome.channel },
+      };
+    }
 
-    // Validate nickname length (max 8 chars)
-    if (nick.length > 8) {
-      const shortened = nick.substring(0, 8);
+    if (outcome.error === "timeout") {
       return {
         content: [
           {
             type: "text",
-            text: `Error: Nickname "${nick}" is too long (max 8 chars). Suggested: "${shortened}". Please use a shorter nickname.`,
+            text: `Requested join to ${normalizedChannel}, but the server hasn't answered yet. A late join still shows up in list_channels.`,
           },
         ],
-        details: { error: "nickname_too_long", nickname: nick, suggested: shortened },
+        details: { network, channel: normalizedChannel, pending: true },
       };
     }
 
-    currentState = {
-      connected: false,
-      host,
-      port,
-      nick,
-      channels,
+    return {
+      content: [
+        { type: "text", text: `Error: Could not join ${normalizedChannel}: ${outcome.reason}` },
+      ],
+      details: {
+        error: outcome.error,
+        network,
+        channel: normalizedChannel,
+        reason: outcome.reason,
+      },
     };
+  }
 
-    ircClient = new IRCClient();
-    setupClient(ctx);
+  async function handleLeave(
+    params: any,
+    ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { conn } = lookup;
 
-    return new Promise<AgentToolResult<unknown>>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error("Connection timeout (10s)"));
-      }, 10000);
+    const channel = params.channel as string;
 
-      const onRegistered = () => {
-        clearTimeout(timeout);
-        ircClient?.removeListener("registered", onRegistered);
-        ircClient?.removeListener("socket error", onError);
+    if (!channel) {
+      return {
+        content: [{ type: "text", text: "Error: 'leave' requires a 'channel' parameter" }],
+        details: { error: "missing_channel" },
+      };
+    }
 
-        resolve({
+    // Ensure channel starts with #
+    const normalizedChannel = channel.startsWith("#") ? channel : `#${channel}`;
+    const network = conn.state.network;
+
+    // A channel we meant to join but never got into only needs forgetting
+    if (!conn.roster.channel(normalizedChannel)) {
+      if (removeChannel(conn, normalizedChannel, ctx)) {
+        return {
+          content: [{ type: "text", text: `No longer trying to join ${normalizedChannel}` }],
+          details: { network, channel: normalizedChannel },
+        };
+      }
+      return {
+        content: [{ type: "text", text: `Error: Not in ${normalizedChannel}` }],
+        details: { error: "not_in_channel", network, channel: normalizedChannel },
+      };
+    }
+
+    // state.channels drops it when the server confirms the PART
+    void sendQueued(conn, "control", (c) => c.part(normalizedChannel));
+
+    return {
+      content: [{ type: "text", text: `Leaving ${normalizedChannel}` }],
+      details: { network, channel: normalizedChannel },
+    };
+  }
+
+  async function handleHistory(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    // History outlives connections, so fall back to the only network that has any
+    let network = params.network as string | undefined;
+    if (!network) {
+      const names = connections.size > 0 ? [...connections.keys()] : listHistoryNetworks();
+      if (names.length > 1) {
+        return {
           content: [
             {
               type: "text",
-              text: `✅ Connected to ${host}:${port} as ${nick}\nJoining channels: ${channels.join(", ")}`,
+              text: `Error: History exists for several networks, pass 'network': ${names.join(", ")}`,
             },
           ],
-          details: { host, port, nick, channels, connected: true },
-        });
+          details: { error: "ambiguous_network", networks: names },
+        };
+      }
+      network = names[0];
+    }
+
+    const target = params.target as string;
+
+    if (!target) {
+      const targets = network ? listHistoryTargets(network) : [];
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: 'history' requires a 'target' (channel or username). With history: ${targets.join(", ") || "none"}`,
+          },
+        ],
+        details: { error: "missing_target", network, targets },
       };
+    }
 
-      const onError = (err: any) => {
-        clearTimeout(timeout);
-        ircClient?.removeListener("registered", onRegistered);
-        ircClient?.removeListener("socket error", onError);
+    let since: number | undefined;
+    if (params.since) {
+      const parsed = parseSince(String(params.since));
+      if (parsed === null) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Invalid 'since' value "${params.since}". Use an ISO timestamp or a duration like "30m".`,
+            },
+          ],
+          details: { error: "invalid_since", since: params.since },
+        };
+      }
+      since = parsed;
+    }
 
-        reject(new Error(`Connection failed: ${err.message}`));
+    const entries = network
+      ? getHistory(network, target, { limit: params.limit as number | undefined, since })
+      : [];
+
+    if (entries.length === 0) {
+      return {
+        content: [{ type: "text", text: `No history for ${target}` }],
+        details: { network, target, entries: [] },
       };
+    }
 
-      ircClient!.once("registered", onRegistered);
-      ircClient!.once("socket error", onError);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `History for ${target} (${entries.length} entries):\n${formatHistory(entries)}`,
+        },
+      ],
+      details: { network, target, entries },
+    };
+  }
 
-      ircClient!.connect({ host, port, nick });
-    }).catch((error) => {
-      if (ircClient) {
-        ircClient.quit();
-        ircClient = null;
-      }
-      currentState = null;
+  // =============================================================================
+  // Channel Management Handlers
+  // =============================================================================
+
+  // Our standing in a channel, from our highest prefix mode in the roster
+  function channelRole(conn: Connection, channel: RosterChannel): ChannelRole {
+    const me = channel.members.find((m) => conn.client.caseCompare(m.nick, conn.state.nick));
+    const prefixes: string[] = (conn.client.network.options.PREFIX || []).map((p: any) => p.mode);
+    const best = me?.modes[0];
+    if (!best) return "member";
+    if (prefixes.indexOf(best) <= prefixes.indexOf("o")) return "op";
+    return best === "h" ? "halfop" : "member";
+  }
+
+  // The joined channel a management action is about
+  function lookupChannel(params: any, action: string): ChannelLookup {
+    const lookup = lookupLiveConnection(params);
+    if ("error" in lookup) return lookup;
+    const { conn } = lookup;
 
+    const name = params.channel as string;
+    if (!name) {
       return {
-        content: [{ type: "text", text: `Error: ${error.message}` }],
-        details: { error: error.message },
+        error: {
+          content: [{ type: "text", text: `Error: '${action}' requires a 'channel' parameter` }],
+          details: { error: "missing_channel" },
+        },
+      };
+    }
+
+    const normalized = name.startsWith("#") ? name : `#${name}`;
+    const channel = conn.roster.channel(normalized);
+    if (!channel) {
+      return {
+        error: {
+          content: [{ type: "text", text: `Error: Not in ${normalized}` }],
+          details: { error: "not_in_channel", network: conn.state.network, channel: normalized },
+        },
+      };
+    }
+    return { conn, channel };
+  }
+
+  // Refuse up front what the server would refuse; trusted only once NAMES has told us our modes
+  function requireRole(
+    conn: Connection,
+    channel: RosterChannel,
+    what: string,
+    needs: ChannelRole
+  ): AgentToolResult<unknown> | null {
+    const role = channelRole(conn, channel);
+    if (!channel.synced || ROLE_RANK[role] >= ROLE_RANK[needs]) return null;
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Error: To ${what} in ${channel.name} you need to be ${ROLE_NAMES[needs]}, and you are ${ROLE_NAMES[role]}`,
+        },
+      ],
+      details: {
+        error: "not_permitted",
+        network: conn.state.network,
+        channel: channel.name,
+        needs,
+        role,
+      },
+    };
+  }
+
+  // Wait for the server to echo a change we made in a channel (our MODE, KICK or TOPIC), or
+  // to refuse it; undefined if neither arrives in time (e.g. a ban that was already set)
+  function awaitChange(
+    conn: Connection,
+    channel: string,
+    event: "mode" | "kick" | "topic",
+    nick?: string
+  ): Promise<{ ok: boolean; error?: string; reason?: string } | undefined> {
+    const { client } = conn;
+    const matches = (a: unknown, b?: string) =>
+      typeof a === "string" && !!b && client.caseCompare(a, b);
+
+    return new Promise((resolve) => {
+      const done = (result?: { ok: boolean; error?: string; reason?: string }) => {
+        clearTimeout(timer);
+        client.removeListener(event, onChange);
+        client.removeListener("irc error", onError);
+        resolve(result);
       };
+      const onChange = (e: any) => {
+        if (matches(e.target ?? e.channel, channel) && matches(e.nick, conn.state.nick)) {
+          done({ ok: true });
+        }
+      };
+      // ERR_USERNOTINCHANNEL carries the nick where the channel should be, so check both
+      const onError = (e: any) => {
+        if (!CHANGE_ERRORS.has(e.error)) return;
+        const about = [e.channel, e.nick];
+        if (about.some((x) => matches(x, channel) || matches(x, nick))) {
+          done({ ok: false, error: e.error, reason: e.reason });
+        }
+      };
+      const timer = setTimeout(() => done(undefined), CHANGE_TIMEOUT_MS);
+      client.on(event, onChange);
+      client.on("irc error", onError);
     });
   }
 
-  async function handleDisconnect(
-    _params: any,
+  // Send a channel change and turn the server's answer into a tool result
+  async function applyChange(
+    conn: Connection,
+    channel: string,
+    event: "mode" | "kick" | "topic",
+    send: (client: IRCClient) => void,
+    what: { verb: string; done: string; nick?: string },
+    details: Record<string, unknown> = {}
+  ): Promise<AgentToolResult<unknown>> {
+    const base = { network: conn.state.network, channel, ...details };
+    const answer = awaitChange(conn, channel, event, what.nick);
+
+    if (!(await sendQueued(conn, "control", send))) {
+      return {
+        content: [
+          { type: "text", text: `Error: Could not ${what.verb} in ${channel}: connection lost` },
+        ],
+        details: { error: "not_sent", ...base },
+      };
+    }
+
+    const result = await answer;
+    if (!result) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Asked the server to ${what.verb} in ${channel}, but it didn't confirm (maybe nothing needed changing)`,
+          },
+        ],
+        details: { ...base, confirmed: false },
+      };
+    }
+    if (!result.ok) {
+      return {
+        content: [
+          { type: "text", text: `Error: Could not ${what.verb} in ${channel}: ${result.reason}` },
+        ],
+        details: { error: result.error, ...base, reason: result.reason },
+      };
+    }
+    return {
+      content: [{ type: "text", text: what.done }],
+      details: { ...base, confirmed: true },
+    };
+  }
+
+  async function handleTopic(
+    params: any,
     ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+    const lookup = lookupChannel(params, "topic");
+    if ("error" in lookup) return lookup.error;
+    const { conn, channel } = lookup;
+    const network = conn.state.network;
+
+    if (params.topic === undefined) {
+      const topic = channel.topic;
+      if (!topic?.text) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: topic
+                ? `No topic set for ${channel.name}`
+                : `Topic for ${channel.name} not known yet`,
+            },
+          ],
+          details: { network, channel: channel.name, topic },
+        };
+      }
+      const when = topic.time ? ` on ${new Date(topic.time).toISOString()}` : "";
+      const by = topic.by ? ` (set by ${topic.by}${when})` : "";
       return {
-        content: [{ type: "text", text: "Error: Not connected to IRC" }],
-        details: { error: "not_connected" },
+        content: [{ type: "text", text: `Topic for ${channel.name}${by}:\n${topic.text}` }],
+        details: { network, channel: channel.name, topic },
       };
     }
 
-    ircClient.quit("Disconnecting");
-    ircClient = null;
-    currentState = null;
-    cachedAgentsContent = null; // Clear cached AGENTS.md content
+    // +t: only (half-)ops may change it
+    const denied = requireRole(
+      conn,
+      channel,
+      "change the topic",
+      "t" in channel.modes ? "halfop" : "member"
+    );
+    if (denied) return denied;
+
+    // A topic is as public as a channel message: screened and, if the profile says so, approved
+    let text = String(params.topic).trim();
+    let notes = "";
+    if (text) {
+      const approver = params[SENT_BY_HUMAN] ? undefined : ctx;
+      const { cleared, screen, approval } = await vetOutbound(
+        conn,
+        channel.name,
+        text,
+        "topic",
+        approver
+      );
+      const withheld = describeFindings(screen.findings);
+      if (approval && !approval.approved) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Topic for ${channel.name} not set (approval required): ${approval.reason}`,
+            },
+          ],
+          details: { error: "not_approved", network, channel: channel.name, approval },
+        };
+      }
+      if (!cleared) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Error: Topic for ${channel.name} not set, it looks like it contains secrets: ${withheld}`,
+            },
+          ],
+          details: {
+            error: "secrets_blocked",
+            network,
+            channel: channel.name,
+            withheld: screen.findings,
+          },
+        };
+      }
+      text = screen.text;
+      if (withheld) notes += `\nRedacted before sending, looked like secrets: ${withheld}`;
+      if (approval?.edited) notes += "\nThe human edited the topic before approving it.";
+    }
 
-    if (ctx.hasUI) {
-      ctx.ui.setStatus("irc", "");
+    const result = await applyChange(
+      conn,
+      channel.name,
+      "topic",
+      (c) => c.setTopic(channel.name, text),
+      {
+        verb: "change the topic",
+        done: text
+          ? `Topic for ${channel.name} set to: ${text}`
+          : `Cleared the topic for ${channel.name}`,
+      },
+      { topic: text }
+    );
+    if (!result.details || !(result.details as any).error) {
+      const [first] = result.content;
+      if (first.type === "text") first.text += notes;
     }
+    return result;
+  }
 
-    return {
-      content: [{ type: "text", text: "Disconnected from IRC" }],
-      details: {},
-    };
+  async function handleMode(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupChannel(params, "mode");
+    if ("error" in lookup) return lookup.error;
+    const { conn, channel } = lookup;
+    const network = conn.state.network;
+    const role = channelRole(conn, channel);
+
+    if (!params.modes) {
+      const flags = Object.keys(channel.modes).sort().join("");
+      // Keys are secrets; limits and the like are fine to show
+      const args = Object.entries(channel.modes)
+        .filter(([mode, param]) => param !== null && mode !== "k")
+        .map(([mode, param]) => `${mode} ${param}`);
+      const details = args.length > 0 ? ` (${args.join(", ")})` : "";
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Modes for ${channel.name}: ${flags ? `+${flags}${details}` : "none known"}\nYou are ${ROLE_NAMES[role]} there`,
+          },
+        ],
+        details: { network, channel: channel.name, modes: Object.keys(channel.modes), role },
+      };
+    }
+
+    const [changes, ...args] = String(params.modes).trim().split(/\s+/);
+    if (!/^[+-][a-zA-Z+-]*[a-zA-Z]$/.test(changes)) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Invalid 'modes' "${params.modes}". Use e.g. "+m", "-t" or "+l 20".`,
+          },
+        ],
+        details: { error: "invalid_modes", modes: params.modes },
+      };
+    }
+
+    const denied = requireRole(conn, channel, "change modes", "op");
+    if (denied) return denied;
+
+    return applyChange(
+      conn,
+      channel.name,
+      "mode",
+      (c) => c.mode(channel.name, changes, args),
+      { verb: `set ${params.modes}`, done: `Set ${params.modes} on ${channel.name}` },
+      { modes: params.modes }
+    );
+  }
+
+  // The member an op action is about: must be in the channel
+  function lookupMember(
+    conn: Connection,
+    channel: RosterChannel,
+    action: string,
+    nick: string | undefined
+  ): { nick: string } | { error: AgentToolResult<unknown> } {
+    if (!nick) {
+      return {
+        error: {
+          content: [{ type: "text", text: `Error: '${action}' requires a 'nick' parameter` }],
+          details: { error: "missing_nick" },
+        },
+      };
+    }
+    const member = channel.members.find((m) => conn.client.caseCompare(m.nick, nick));
+    if (!member) {
+      return {
+        error: {
+          content: [{ type: "text", text: `Error: ${nick} is not in ${channel.name}` }],
+          details: { error: "nick_not_in_channel", channel: channel.name, nick },
+        },
+      };
+    }
+    return { nick: member.nick };
+  }
+
+  async function handleKick(
+    params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupChannel(params, "kick");
+    if ("error" in lookup) return lookup.error;
+    const { conn, channel } = lookup;
+
+    const member = lookupMember(conn, channel, "kick", params.nick);
+    if ("error" in member) return member.error;
+    const denied = requireRole(conn, channel, "kick", "halfop");
+    if (denied) return denied;
+
+    // The reason is shown to the whole channel, so it is screened like a message
+    const screen = params.message ? screenMessage(String(params.message), conn.redact) : null;
+    if (screen?.blocked) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: Not kicking, the reason looks like it contains secrets: ${describeFindings(screen.findings)}`,
+          },
+        ],
+        details: { error: "secrets_blocked", channel: channel.name, withheld: screen.findings },
+      };
+    }
+    const reason = screen?.text;
+
+    return applyChange(
+      conn,
+      channel.name,
+      "kick",
+      (c) => c.raw("KICK", channel.name, member.nick, reason),
+      {
+        verb: `kick ${member.nick}`,
+        done: `Kicked ${member.nick} from ${channel.name}${reason ? `: ${reason}` : ""}`,
+        nick: member.nick,
+      },
+      { nick: member.nick, reason }
+    );
+  }
+
+  async function handleBan(
+    params: any,
+    action: "ban" | "unban"
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupChannel(params, action);
+    if ("error" in lookup) return lookup.error;
+    const { conn, channel } = lookup;
+
+    // A nick is banned by host when we know it, so a nick change doesn't get around it
+    let mask = params.mask as string | undefined;
+    if (!mask && params.nick) {
+      const host = conn.roster.user(params.nick)?.hostname;
+      mask = host ? `*!*@${host}` : `${params.nick}!*@*`;
+    }
+    if (!mask) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Error: '${action}' requires a 'nick' or a 'mask' (nick!user@host)`,
+          },
+        ],
+        details: { error: "missing_mask" },
+      };
+    }
+
+    const denied = requireRole(conn, channel, action, "halfop");
+    if (denied) return denied;
+
+    const mode = action === "ban" ? "+b" : "-b";
+    return applyChange(
+      conn,
+      channel.name,
+      "mode",
+      (c) => c.mode(channel.name, mode, mask),
+      {
+        verb: `${action} ${mask}`,
+        done: `${action === "ban" ? "Banned" : "Unbanned"} ${mask} in ${channel.name}`,
+      },
+      { mask }
+    );
+  }
+
+  async function handleMemberMode(
+    params: any,
+    action: keyof typeof MEMBER_MODES
+  ): Promise<AgentToolResult<unknown>> {
+    const lookup = lookupChannel(params, action);
+    if ("error" in lookup) return lookup.error;
+    const { conn, channel } = lookup;
+    const { mode, needs, done } = MEMBER_MODES[action];
+
+    const member = lookupMember(conn, channel, action, params.nick);
+    if ("error" in member) return member.error;
+    const denied = requireRole(conn, channel, `${action} someone`, needs);
+    if (denied) return denied;
+
+    return applyChange(
+      conn,
+      channel.name,
+      "mode",
+      (c) => c.mode(channel.name, mode, member.nick),
+      { verb: `${action} ${member.nick}`, done: `${done} ${member.nick} in ${channel.name}` },
+      { nick: member.nick, mode }
+    );
   }
 
-  async function handleSend(
+  // =============================================================================
+  // Profile Action Handlers
+  // =============================================================================
+
+  async function handleProfileSave(
     params: any,
     _ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+    const profileName = params.profile as string;
+
+    if (!profileName) {
       return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', host: '...', nickname: '...' }) first.",
-          },
-        ],
-        details: { error: "not_connected" },
+        content: [{ type: "text", text: "Error: 'profile_save' requires a 'profile' name" }],
+        details: { error: "missing_profile" },
       };
     }
 
-    const target = params.target as string;
-    const message = params.message as string;
+    // Only fields that were actually passed, so updates merge over the saved profile
+    const updates: Partial<IRCProfile> = {};
+    if (params.server !== undefined) updates.server = params.server;
+    if (params.nickname !== undefined) updates.nick = params.nickname;
+    if (params.channels !== undefined) updates.channels = params.channels;
+    if (params.username !== undefined) updates.username = params.username;
+    if (params.realname !== undefined) updates.realname = params.realname;
+    if (params.nickserv_pass !== undefined) updates.nickservPass = params.nickserv_pass;
+    if (params.auto_connect !== undefined) updates.autoConnect = params.auto_connect;
+    if (params.agents_file !== undefined) updates.agentsFile = params.agents_file;
+
+    // host/port alongside server define (or redefine) that server entry
+    let server: IRCServer | undefined;
+    if (params.host) {
+      if (!params.server) {
+        return {
+          content: [
+            { type: "text", text: "Error: 'host' requires a 'server' name to save it under" },
+          ],
+          details: { error: "missing_server" },
+        };
+      }
+      server = { host: params.host, port: params.port || 6667 };
+      if (params.ssl !== undefined) server.ssl = params.ssl;
+    }
 
-    if (!target) {
+    try {
+      const { profile, created, warnings } = await saveProfile(profileName, updates, server);
+      let text = `${created ? "Created" : "Updated"} profile "${profileName}" (${profile.nick} on ${profile.server})`;
+      if (warnings.length > 0) {
+        text += `\n${warnings.length} warning(s):\n${formatIssues(warnings)}`;
+      }
       return {
-        content: [
-          { type: "text", text: "Error: 'send' requires a 'target' (channel or username)" },
-        ],
-        details: { error: "missing_target" },
+        content: [{ type: "text", text }],
+        details: { profile: profileName, created, config: maskProfile(profile), warnings },
+      };
+    } catch (error: any) {
+      return {
+        content: [{ type: "text", text: `Error: ${error.message}` }],
+        details: { error: "invalid_profile", profile: profileName },
       };
     }
+  }
 
-    if (!message) {
+  async function handleProfileList(
+    _params: any,
+    _ctx: ExtensionContext
+  ): Promise<AgentToolResult<unknown>> {
+    const profiles = await listProfiles();
+    const names = Object.keys(profiles);
+
+    if (names.length === 0) {
       return {
-        content: [{ type: "text", text: "Error: 'send' requires a 'message'" }],
-        details: { error: "missing_message" },
+        content: [{ type: "text", text: "No IRC profiles configured" }],
+        details: { profiles: [] },
       };
     }
 
-    ircClient.say(target, message);
+    const active = [...connections.values()]
+      .map((c) => c.state.profileName)
+      .filter((name): name is string => !!name);
+    const lines = names.map((name) => {
+      const p = profiles[name];
+      const activeTag = active.includes(name) ? " (active)" : "";
+      return `${name}${activeTag}: ${p.nick} on ${p.server} — ${p.channels.join(", ") || "no channels"}`;
+    });
 
     return {
-      content: [{ type: "text", text: `Sent to ${target}: ${message}` }],
-      details: { target, message },
+      content: [{ type: "text", text: `IRC profiles:\n${lines.join("\n")}` }],
+      details: { profiles: names, active },
     };
   }
 
-  async function handleChangeNick(
+  async function handleProfileShow(
     params: any,
     _ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+    const profileName = params.profile as string;
+
+    if (!profileName) {
       return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
-          },
-        ],
-        details: { error: "not_connected" },
+        content: [{ type: "text", text: "Error: 'profile_show' requires a 'profile' name" }],
+        details: { error: "missing_profile" },
       };
     }
 
-    const newNick = params.new_nick as string;
+    const profiles = await listProfiles();
+    const profile = profiles[profileName];
 
-    if (!newNick) {
+    if (!profile) {
       return {
-        content: [{ type: "text", text: "Error: 'change_nick' requires a 'new_nick' parameter" }],
-        details: { error: "missing_new_nick" },
+        content: [{ type: "text", text: `Error: IRC profile "${profileName}" not found` }],
+        details: { error: "profile_not_found", profile: profileName },
       };
     }
 
-    const oldNick = currentState.nick;
-    ircClient.changeNick(newNick);
-
+    const masked = maskProfile(profile);
     return {
-      content: [{ type: "text", text: `Requesting nickname change from ${oldNick} to ${newNick}` }],
-      details: { oldNick, newNick },
+      content: [
+        { type: "text", text: `Profile "${profileName}":\n${JSON.stringify(masked, null, 2)}` },
+      ],
+      details: { profile: profileName, config: masked },
     };
   }
 
-  async function handleInfo(
-    _params: any,
+  async function handleProfileDelete(
+    params: any,
     _ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+    const profileName = params.profile as string;
+
+    if (!profileName) {
       return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
-          },
-        ],
-        details: { error: "not_connected" },
+        content: [{ type: "text", text: "Error: 'profile_delete' requires a 'profile' name" }],
+        details: { error: "missing_profile" },
       };
     }
 
-    const output = `You are connected to IRC as: ${currentState.nick}
-Server: ${currentState.host}:${currentState.port}
-Your channels: ${currentState.channels.join(", ") || "none"}`;
-
-    return {
-      content: [{ type: "text", text: output }],
-      details: {
-        host: currentState.host,
-        port: currentState.port,
-        nick: currentState.nick,
-        channels: currentState.channels,
-      },
-    };
-  }
-
-  async function handleListChannels(
-    _params: any,
-    _ctx: ExtensionContext
-  ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+    const user = [...connections.values()].find((c) => c.state.profileName === profileName);
+    if (user) {
       return {
         content: [
           {
             type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
+            text: `Error: Profile "${profileName}" is in use by the connection to ${user.state.network}. Disconnect first.`,
           },
         ],
-        details: { error: "not_connected" },
+        details: { error: "profile_active", profile: profileName },
       };
     }
 
-    const channels = currentState.channels;
-    const output = `Connected to ${currentState.host} as ${currentState.nick}\nChannels: ${channels.join(", ") || "none"}`;
+    const deleted = await deleteProfile(profileName);
+    if (!deleted) {
+      return {
+        content: [{ type: "text", text: `Error: IRC profile "${profileName}" not found` }],
+        details: { error: "profile_not_found", profile: profileName },
+      };
+    }
 
     return {
-      content: [{ type: "text", text: output }],
-      details: { host: currentState.host, nick: currentState.nick, channels },
+      content: [{ type: "text", text: `Deleted profile "${profileName}"` }],
+      details: { profile: profileName },
     };
   }
 
-  async function handleJoin(
-    params: any,
+  async function handleConfigCheck(
+    _params: any,
     _ctx: ExtensionContext
   ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
-      return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
-          },
-        ],
-        details: { error: "not_connected" },
-      };
-    }
-
-    const channel = params.channel as string;
+    const { path, exists, errors, warnings } = await checkConfig();
 
-    if (!channel) {
+    if (!exists) {
       return {
-        content: [{ type: "text", text: "Error: 'join' requires a 'channel' parameter" }],
-        details: { error: "missing_channel" },
+        content: [{ type: "text", text: `No IRC config file at ${path}` }],
+        details: { path, exists, errors, warnings },
       };
     }
 
-    // Ensure channel starts with #
-    const normalizedChannel = channel.startsWith("#") ? channel : `#${channel}`;
-
-    ircClient.join(normalizedChannel);
-
-    // Add to current state channels if not already there
-    if (!currentState.channels.includes(normalizedChannel)) {
-      currentState.channels.push(normalizedChannel);
+    const sections: string[] = [];
+    if (errors.length > 0) {
+      sections.push(`${errors.length} error(s):\n${formatIssues(errors)}`);
     }
+    if (warnings.length > 0) {
+      sections.push(`${warnings.length} warning(s):\n${formatIssues(warnings)}`);
+    }
+
+    const text =
+      errors.length > 0
+        ? `Error: ${path} is invalid\n${sections.join("\n\n")}`
+        : `${path} is valid${sections.length > 0 ? `\n${sections.join("\n\n")}` : ""}`;
 
     return {
-      content: [{ type: "text", text: `Requested join to ${normalizedChannel}` }],
-      details: { channel: normalizedChannel },
+      content: [{ type: "text", text }],
+      details: {
+        path,
+        exists,
+        errors,
+        warnings,
+        ...(errors.length > 0 && { error: "invalid_config" }),
+      },
     };
   }
 
-  async function handleLeave(
-    params: any,
-    ctx: ExtensionContext
-  ): Promise<AgentToolResult<unknown>> {
-    if (!ircClient || !currentState?.connected) {
+  // Show or change who may steer the agent. Only reachable from /irc, never the tool,
+  // so the agent can't grant trust to whoever is talking to it.
+  function handleTrust(params: Record<string, any>): AgentToolResult<unknown> {
+    const lookup = lookupConnection(params);
+    if ("error" in lookup) return lookup.error;
+    const { access, state } = lookup.conn;
+    const nick = params.nick as string | undefined;
+
+    if (params.sub === "add" && nick) {
+      const wasEnabled = access.enabled;
+      access.trust(nick, params.account);
+      const note = wasEnabled
+        ? ""
+        : `\nAccess control is now on for ${state.network}: untrusted senders are handled as "${access.untrusted}".`;
+      const entry = formatTrustEntry({ nick, account: params.account });
       return {
-        content: [
-          {
-            type: "text",
-            text: "Error: Not connected to IRC. Use irc({ action: 'connect', ... }) first.",
-          },
-        ],
-        details: { error: "not_connected" },
+        content: [{ type: "text", text: `Trusting ${entry} on ${state.network}${note}` }],
+        details: { network: state.network, trusted: access.trusted },
       };
     }
 
-    const channel = params.channel as string;
-
-    if (!channel) {
+    if (params.sub === "remove" && nick) {
+      if (!access.untrust(nick)) {
+        const owner = access.owners.some((e) => lookup.conn.client.caseCompare(e.nick, nick));
+        const why = owner ? "is an owner (edit the profile's access.owners)" : "is not trusted";
+        return {
+          content: [{ type: "text", text: `Error: ${nick} ${why}` }],
+          details: { error: owner ? "is_owner" : "not_trusted", nick },
+        };
+      }
       return {
-        content: [{ type: "text", text: "Error: 'leave' requires a 'channel' parameter" }],
-        details: { error: "missing_channel" },
+        content: [{ type: "text", text: `No longer trusting ${nick} on ${state.network}` }],
+        details: { network: state.network, trusted: access.trusted },
       };
     }
 
-    // Ensure channel starts with #
-    const normalizedChannel = channel.startsWith("#") ? channel : `#${channel}`;
-
-    ircClient.part(normalizedChannel);
-
-    // Remove from current state channels
-    const index = currentState.channels.indexOf(normalizedChannel);
-    if (index > -1) {
-      currentState.channels.splice(index, 1);
-    }
-
-    if (ctx.hasUI) {
-      ctx.ui.notify(`Left ${normalizedChannel}`, "info");
+    const list = (entries: typeof access.owners) =>
+      entries.map(formatTrustEntry).join(", ") || "none";
+    const denials = access.denials().slice(-10);
+    const lines = access.enabled
+      ? [
+          `Access control on ${state.network}:`,
+          `Owners: ${list(access.owners)}`,
+          `Trusted: ${list(access.trusted)}`,
+          `Untrusted senders: ${access.untrusted}`,
+        ]
+      : [`Access control is off on ${state.network}: every sender can steer the agent`];
+    if (denials.length > 0) {
+      lines.push(
+        "",
+        "Recent denials:",
+        ...denials.map(
+          (d) =>
+            `${new Date(d.time).toLocaleTimeString()} ${d.nick} (${d.target}): ${d.reason} [${d.outcome}]`
+        )
+      );
     }
 
     return {
-      content: [{ type: "text", text: `Left channel ${normalizedChannel}` }],
-      details: { channel: normalizedChannel },
+      content: [{ type: "text", text: lines.join("\n") }],
+      details: {
+        network: state.network,
+        enabled: access.enabled,
+        owners: access.owners,
+        trusted: access.trusted,
+        untrusted: access.untrusted,
+        denials,
+      },
     };
   }
 
@@ -661,12 +3629,12 @@ Your channels: ${currentState.channels.join(", ") || "none"}`;
   ): Promise<AgentToolResult<unknown>> {
     switch (action) {
       case "connect":
-        if (!params.host || !params.nickname) {
+        if (!params.profile && (!params.host || !params.nickname)) {
           return {
             content: [
               {
                 type: "text",
-                text: "Error: 'connect' requires 'host' and 'nickname' parameters",
+                text: "Error: 'connect' requires a 'profile' or both 'host' and 'nickname' parameters",
               },
             ],
             details: { error: "missing_connect_params" },
@@ -689,18 +3657,61 @@ Your channels: ${currentState.channels.join(", ") || "none"}`;
       case "list_channels":
         return handleListChannels(params, ctx);
 
+      case "names":
+        return handleNames(params, ctx);
+
+      case "whois":
+        return handleWhois(params, ctx);
+
+      case "topic":
+        return handleTopic(params, ctx);
+
+      case "mode":
+        return handleMode(params, ctx);
+
+      case "kick":
+        return handleKick(params, ctx);
+
+      case "ban":
+      case "unban":
+        return handleBan(params, action);
+
+      case "op":
+      case "deop":
+      case "voice":
+      case "devoice":
+        return handleMemberMode(params, action);
+
       case "join":
         return handleJoin(params, ctx);
 
       case "leave":
         return handleLeave(params, ctx);
 
+      case "history":
+        return handleHistory(params, ctx);
+
+      case "profile_save":
+        return handleProfileSave(params, ctx);
+
+      case "profile_list":
+        return handleProfileList(params, ctx);
+
+      case "profile_show":
+        return handleProfileShow(params, ctx);
+
+      case "profile_delete":
+        return handleProfileDelete(params, ctx);
+
+      case "config_check":
+        return handleConfigCheck(params, ctx);
+
       default:
         return {
           content: [
             {
               type: "text",
-              text: `Error: Unknown action "${action}". Supported: connect, disconnect, info, send, change_nick, list_channels, join, leave`,
+              text: `Error: Unknown action "${action}". Supported: connect, disconnect, info, send, change_nick, list_channels, names, whois, topic, mode, kick, ban, unban, op, deop, voice, devoice, join, leave, history, profile_save, profile_list, profile_show, profile_delete, config_check`,
             },
           ],
           details: { error: "unknown_action", action },
@@ -719,37 +3730,115 @@ Your channels: ${currentState.channels.join(", ") || "none"}`;
 
 IMPORTANT: Run info first to learn your identity.
 CRITICAL: Respond to IRC messages using this tool, NOT regular text output.
-
-Actions: info, send, join, leave, change_nick, list_channels, connect, disconnect
+When connected to several networks, pass 'network' (the profile name, or the host for
+manual connects) to say which one an action is for. Inbound messages are tagged [network].
+Outgoing messages are screened for secrets (keys, tokens, passwords), which are redacted or
+blocked; the result says what was withheld. When the server supports echo-message, send only
+succeeds once the server confirms it (delivery: "echo"). Some profiles need a human to approve (or edit)
+sends first; the result says what they decided.
+Inbound notices arrive as irc_notice and /me actions as irc_channel_action / irc_dm_action.
+Don't reply to notices. Services notices (NickServ...) go to the human, not to you.
+join waits for the server: bans, invite-only (+i), keyed (+k) and full channels come back as
+errors. Kicks and invites arrive as irc_kick and irc_invite. What a channel said while you
+were away arrives as one irc_backlog message when you rejoin it.
+Use names to see who is in a channel (op/voice, away, account) before you @mention anyone
+or hand out work, and whois for details on one nick.
+topic (without 'topic' reads it), mode (without 'modes' shows them), kick, ban/unban, op/deop
+and voice/devoice act on a channel you are in. They are refused up front when the channel's
+modes say you lack ops (+o; +h for topic under +t, kick, ban and voice).
+
+Actions: info, send, join, leave, history, change_nick, list_channels, names, whois, topic,
+         mode, kick, ban, unban, op, deop, voice, devoice, connect, disconnect,
+         profile_save, profile_list, profile_show, profile_delete, config_check
 
 Examples:
   irc({ action: "info" })
   irc({ action: "send", target: "#general", message: "Hello!" })
   irc({ action: "send", target: "username", message: "Hi!" })
+  irc({ action: "send", target: "#general", kind: "action", message: "is running the tests" })
   irc({ action: "join", channel: "#newchannel" })
+  irc({ action: "join", channel: "#private", key: "letmein" })
+  irc({ action: "names", channel: "#general" })
+  irc({ action: "whois", nick: "RepoMan" })
+  irc({ action: "topic", channel: "#general", topic: "Release freeze until Friday" })
+  irc({ action: "mode", channel: "#general", modes: "+m" })
+  irc({ action: "kick", channel: "#general", nick: "spammer", message: "Flooding" })
+  irc({ action: "ban", channel: "#general", nick: "spammer" })
+  irc({ action: "voice", channel: "#general", nick: "RepoMan" })
+  irc({ action: "history", target: "#general", since: "30m" })
+  irc({ action: "connect", profile: "dev1" })
+  irc({ action: "send", network: "team", target: "#ops", message: "Deployed" })
+  irc({ action: "profile_save", profile: "qa", server: "localhost", nickname: "RepoMan", channels: ["#testing"] })
 `,
     parameters: Type.Object({
       // Primary dispatcher (required)
       action: Type.String({
         description:
-          "Action to perform: connect, disconnect, send, change_nick, list_channels, join, leave, info",
+          "Action to perform: connect, disconnect, send, change_nick, list_channels, names, whois, topic, mode, kick, ban, unban, op, deop, voice, devoice, join, leave, info, history, profile_save, profile_list, profile_show, profile_delete, config_check",
       }),
 
+      // Which connection the action is for (optional with a single connection)
+      network: Type.Optional(
+        Type.String({
+          description:
+            "Network to act on: profile name, or host for manual connects. Names a manual connect on 'connect'.",
+        })
+      ),
+
       // CONNECT params
+      profile: Type.Optional(
+        Type.String({ description: "Profile name from config (explicit params override it)" })
+      ),
       host: Type.Optional(Type.String({ description: "IRC server hostname" })),
       port: Type.Optional(Type.Number({ description: "Port (default: 6667)" })),
-      nickname: Type.Optional(Type.String({ description: "Your IRC nickname (max 8 chars)" })),
+      nickname: Type.Optional(Type.String({ description: "Your IRC nickname" })),
       channels: Type.Optional(Type.Array(Type.String(), { description: "Channels to join" })),
 
       // SEND params
       target: Type.Optional(Type.String({ description: "Channel (#general) or username" })),
-      message: Type.Optional(Type.String({ description: "Message to send" })),
+      message: Type.Optional(Type.String({ description: "Message to send (or kick reason)" })),
+      kind: Type.Optional(
+        Type.String({
+          description:
+            "'privmsg' (default), 'notice' (won't trigger other bots), or 'action' (/me, e.g. 'waves')",
+        })
+      ),
+
+      // HISTORY params (also uses target)
+      limit: Type.Optional(
+        Type.Number({ description: `Max entries to return (default: 50, max: ${HISTORY_SIZE})` })
+      ),
+      since: Type.Optional(
+        Type.String({
+          description: "Only entries after this ISO timestamp or duration ('30m', '2h')",
+        })
+      ),
 
       // CHANGE_NICK params
       new_nick: Type.Optional(Type.String({ description: "New nickname" })),
 
-      // JOIN params
+      // JOIN params (also names: one channel instead of all)
       channel: Type.Optional(Type.String({ description: "Channel to join (e.g., '#newchannel')" })),
+      key: Type.Optional(Type.String({ description: "Channel key (+k) for join" })),
+
+      // WHOIS params (also kick, ban/unban, op/deop, voice/devoice)
+      nick: Type.Optional(Type.String({ description: "Nick to look up or act on" })),
+
+      // TOPIC, MODE and BAN params (also use channel)
+      topic: Type.Optional(Type.String({ description: "New topic ('' clears it)" })),
+      modes: Type.Optional(Type.String({ description: "Mode changes, e.g. '+m' or '+l 20'" })),
+      mask: Type.Optional(Type.String({ description: "Ban mask (nick!user@host) for ban/unban" })),
+
+      // PROFILE_SAVE params (also uses profile, host, port, nickname, channels)
+      server: Type.Optional(Type.String({ description: "Server name the profile connects to" })),
+      ssl: Type.Optional(Type.Boolean({ description: "Use TLS for a server saved with 'host'" })),
+      username: Type.Optional(Type.String({ description: "IRC username (defaults to nick)" })),
+      realname: Type.Optional(Type.String({ description: "Real name (defaults to nick)" })),
+      nickserv_pass: Type.Optional(Type.String({ description: "NickServ/SASL password" })),
+      auto_connect: Type.Optional(Type.Boolean({ description: "Auto-connect on startup" })),
+      agents_file: Type.Optional(
+        Type.String({ description: "Custom AGENTS.md path, relative to ~/.pi/agent/" })
+      ),
     }),
 
     async execute(_toolCallId, params, _signal, _onUpdate, ctx) {
@@ -768,12 +3857,29 @@ Examples:
       const actions: AutocompleteItem[] = [
         { value: "info", label: "info — Show IRC connection status" },
         { value: "send", label: "send — Send message to channel/user" },
+        { value: "notice", label: "notice — Send a NOTICE to channel/user" },
+        { value: "me", label: "me — Send an action (/me) to channel/user" },
         { value: "join", label: "join — Join a channel" },
         { value: "leave", label: "leave — Leave a channel" },
+        { value: "history", label: "history — Show recent messages for a channel/user" },
         { value: "change_nick", label: "change_nick — Change nickname" },
         { value: "list_channels", label: "list_channels — List joined channels" },
+        { value: "names", label: "names — Show who is in a channel" },
+        { value: "whois", label: "whois — Look up a nick" },
+        { value: "topic", label: "topic — Show or set a channel's topic" },
+        { value: "mode", label: "mode — Show or change a channel's modes" },
+        { value: "kick", label: "kick — Kick a nick from a channel" },
+        { value: "ban", label: "ban — Ban a nick or mask from a channel" },
+        { value: "unban", label: "unban — Lift a ban" },
+        { value: "op", label: "op — Give a nick ops (deop takes them)" },
+        { value: "deop", label: "deop — Take a nick's ops" },
+        { value: "voice", label: "voice — Give a nick voice (devoice takes it)" },
+        { value: "devoice", label: "devoice — Take a nick's voice" },
         { value: "connect", label: "connect — Connect to IRC server" },
         { value: "disconnect", label: "disconnect — Disconnect from IRC" },
+        { value: "profile", label: "profile — Manage profiles (list, show, save, delete)" },
+        { value: "config", label: "config check — Validate the IRC config file" },
+        { value: "trust", label: "trust — Show or change who may steer the agent" },
       ];
 
       const filtered = actions.filter((item) => item.value.startsWith(prefix.toLowerCase()));
@@ -783,18 +3889,29 @@ Examples:
       // Parse args string into array
       const args = argsStr ? argsStr.trim().split(/\s+/) : [];
 
+      // A leading @network picks the connection: /irc @team send #ops hi
+      const network = args[0]?.startsWith("@") ? args.shift()!.slice(1) : undefined;
+
       // No args = show status (backward compat)
       if (args.length === 0) {
-        if (!currentState || !currentState.connected) {
+        const live = [...connections.values()].filter(
+          (c) => c.state.connected && (!network || c.state.network === network)
+        );
+        if (live.length === 0) {
           ctx.ui.notify("Not connected to IRC", "info");
           return;
         }
-        const info = `Connected: ${currentState.host}:${currentState.port}\nNick: ${currentState.nick}\nChannels: ${currentState.channels.join(", ")}`;
+        const info = live
+          .map(
+            ({ state }) =>
+              `Connected: ${state.host}:${state.port} (${state.network})\nNick: ${state.nick}\nChannels: ${state.channels.join(", ")}`
+          )
+          .join("\n\n");
         ctx.ui.notify(info, "info");
         return;
       }
 
-      const action = args[0];
+      let action = args[0];
       let result: AgentToolResult<unknown>;
 
       try {
@@ -811,15 +3928,34 @@ Examples:
               ctx.ui.notify("Usage: irc send <target> <message>", "error");
               return;
             }
-            params = { target: args[1], message: args.slice(2).join(" ") };
+            params = {
+              target: args[1],
+              message: args.slice(2).join(" "),
+              [SENT_BY_HUMAN]: true,
+            };
+            break;
+
+          case "notice":
+          case "me":
+            if (args.length < 3) {
+              ctx.ui.notify(`Usage: irc ${action} <target> <message>`, "error");
+              return;
+            }
+            params = {
+              target: args[1],
+              message: args.slice(2).join(" "),
+              kind: action === "me" ? "action" : "notice",
+              [SENT_BY_HUMAN]: true,
+            };
+            action = "send";
             break;
 
           case "join":
             if (args.length < 2) {
-              ctx.ui.notify("Usage: irc join <channel>", "error");
+              ctx.ui.notify("Usage: irc join <channel> [key]", "error");
               return;
             }
-            params = { channel: args[1] };
+            params = { channel: args[1], key: args[2] };
             break;
 
           case "leave":
@@ -830,6 +3966,14 @@ Examples:
             params = { channel: args[1] };
             break;
 
+          case "history":
+            if (args.length < 2) {
+              ctx.ui.notify("Usage: irc history <target> [limit]", "error");
+              return;
+            }
+            params = { target: args[1], limit: args[2] ? Number(args[2]) : undefined };
+            break;
+
           case "change_nick":
             if (args.length < 2) {
               ctx.ui.notify("Usage: irc change_nick <nickname>", "error");
@@ -842,9 +3986,79 @@ Examples:
             params = {};
             break;
 
+          case "names":
+            params = { channel: args[1] };
+            break;
+
+          case "whois":
+            if (args.length < 2) {
+              ctx.ui.notify("Usage: irc whois <nick>", "error");
+              return;
+            }
+            params = { nick: args[1] };
+            break;
+
+          case "topic":
+            if (args.length < 2) {
+              ctx.ui.notify("Usage: irc topic <channel> [new topic]", "error");
+              return;
+            }
+            params = {
+              channel: args[1],
+              topic: args.length > 2 ? args.slice(2).join(" ") : undefined,
+              [SENT_BY_HUMAN]: true,
+            };
+            break;
+
+          case "mode":
+            if (args.length < 2) {
+              ctx.ui.notify("Usage: irc mode <channel> [modes...]", "error");
+              return;
+            }
+            params = { channel: args[1], modes: args.slice(2).join(" ") || undefined };
+            break;
+
+          case "kick":
+            if (args.length < 3) {
+              ctx.ui.notify("Usage: irc kick <channel> <nick> [reason]", "error");
+              return;
+            }
+            params = { channel: args[1], nick: args[2], message: args.slice(3).join(" ") };
+            break;
+
+          case "ban":
+          case "unban":
+            if (args.length < 3) {
+              ctx.ui.notify(`Usage: irc ${action} <channel> <nick|mask>`, "error");
+              return;
+            }
+            // Anything with ! or @ in it is a mask, otherwise a nick to ban by host
+            params = /[!@]/.test(args[2])
+              ? { channel: args[1], mask: args[2] }
+              : { channel: args[1], nick: args[2] };
+            break;
+
+          case "op":
+          case "deop":
+          case "voice":
+          case "devoice":
+            if (args.length < 3) {
+              ctx.ui.notify(`Usage: irc ${action} <channel> <nick>`, "error");
+              return;
+            }
+            params = { channel: args[1], nick: args[2] };
+            break;
+
           case "connect": {
+            if (args.length === 2) {
+              params = { profile: args[1] };
+              break;
+            }
             if (args.length < 3) {
-              ctx.ui.notify("Usage: irc connect <host> <nickname> [channels...]", "error");
+              ctx.ui.notify(
+                "Usage: irc connect <profile> | irc connect <host> <nickname> [channels...]",
+                "error"
+              );
               return;
             }
             const channels = args.length > 3 ? args.slice(3) : [];
@@ -856,16 +4070,63 @@ Examples:
             params = {};
             break;
 
+          case "profile": {
+            const sub = args[1];
+            if (sub === "list") {
+              params = {};
+            } else if ((sub === "show" || sub === "delete") && args.length >= 3) {
+              params = { profile: args[2] };
+            } else if (sub === "save" && args.length >= 5) {
+              params = {
+                profile: args[2],
+                server: args[3],
+                nickname: args[4],
+                channels: args.length > 5 ? args.slice(5) : undefined,
+              };
+            } else {
+              ctx.ui.notify(
+                "Usage: irc profile list | show <name> | delete <name> | save <name> <server> <nick> [channels...]",
+                "error"
+              );
+              return;
+            }
+            action = `profile_${sub}`;
+            break;
+          }
+
+          case "config":
+            if (args[1] !== "check") {
+              ctx.ui.notify("Usage: irc config check", "error");
+              return;
+            }
+            action = "config_check";
+            params = {};
+            break;
+
+          case "trust": {
+            const sub = args[1] || "list";
+            if (!(sub === "list" || (sub === "add" && args[2]) || (sub === "remove" && args[2]))) {
+              ctx.ui.notify(
+                "Usage: irc trust [list] | add <nick> [account] | remove <nick>",
+                "error"
+              );
+              return;
+            }
+            params = { sub, nick: args[2], account: args[3] };
+            break;
+          }
+
           default:
             ctx.ui.notify(
-              `Unknown action: ${action}\nSupported: info, send, join, leave, change_nick, list_channels, connect, disconnect`,
+              `Unknown action: ${action}\nSupported: info, send, notice, me, join, leave, history, change_nick, list_channels, names, whois, topic, mode, kick, ban, unban, op, deop, voice, devoice, connect, disconnect, profile, config, trust`,
               "error"
             );
             return;
         }
 
-        // Dispatch to shared handler
-        result = await dispatch(action, params, ctx);
+        // Dispatch to shared handler; trust is command-only
+        if (network) params.network = network;
+        result = action === "trust" ? handleTrust(params) : await dispatch(action, params, ctx);
 
         // Show result to user
         if (result.content && result.content[0] && result.content[0].type === "text") {
@@ -893,6 +4154,7 @@ Examples:
     }
 
     if (!profileName) {
+      await restoreSavedSession(ctx);
       return;
     }
 
@@ -906,16 +4168,7 @@ Examples:
         return;
       }
 
-      const { profile, server } = resolved;
-
-      if (profile.nick.length > 8) {
-        const shortened = profile.nick.substring(0, 8);
-        const msg = `Profile "${profileName}" has nickname "${profile.nick}" which is too long (max 8 chars).\nSuggested: "${shortened}"\n\nPlease update the profile with a shorter nickname.`;
-        if (ctx.hasUI) {
-          ctx.ui.notify(msg, "error");
-        }
-        return;
-      }
+      const { profile } = resolved;
 
       if (profile.autoConnect === false) {
         if (ctx.hasUI) {
@@ -927,75 +4180,91 @@ Examples:
         return;
       }
 
-      if (ircClient && currentState?.connected) {
+      if (connections.get(profileName)?.state.connected) {
         return;
       }
 
-      // Load custom AGENTS.md if configured for this profile
-      await loadAgentsFile(profileName);
-
-      const nick = profile.nick;
-
-      currentState = {
-        connected: false,
-        host: server.host,
-        port: server.port,
-        nick,
-        channels: profile.channels,
-        profileName,
-      };
-
-      const clientOptions: any = {
-        nick,
-        username: profile.username || nick,
-        gecos: profile.realname || nick,
-      };
-
-      if (profile.nickservPass) {
-        clientOptions.account = {
-          account: nick,
-          password: profile.nickservPass,
-        };
-      }
-
-      ircClient = new IRCClient(clientOptions);
-      setupClient(ctx);
+      // Pick up where the same profile left off (runtime joins, last-seen timestamps)
+      const saved = await loadState();
+      const resumed = saved.find((s) => s.profileName === profileName) || null;
 
-      // TODO: Add support for Server password
-      ircClient.connect({
-        host: server.host,
-        port: server.port,
-        nick,
-        username: profile.username || nick,
-        tls: server.ssl || false,
+      const opts = await resolveConnectOptions({
+        profile: profileName,
+        channels: resumed?.channels,
       });
+      opts.lastSeen = resumed?.lastSeen;
+      await startConnection(opts, ctx);
 
       if (ctx.hasUI) {
         ctx.ui.notify(
-          `Auto-connecting to ${server.host}:${server.port} as ${nick} (profile: ${profileName})`,
+          `Auto-connecting to ${opts.host}:${opts.port} as ${opts.nick} (profile: ${profileName})`,
           "info"
         );
       }
-    } catch (error) {
-      const msg = `Failed to auto-connect with profile "${profileName}": ${error}`;
+    } catch (error: any) {
+      const msg = `Failed to auto-connect with profile "${profileName}": ${error.message}`;
       if (ctx.hasUI) {
         ctx.ui.notify(msg, "error");
       }
     }
   });
 
+  // Reconnect to wherever the previous session was when started without --irc-profile
+  async function restoreSavedSession(ctx: ExtensionContext): Promise<void> {
+    for (const saved of await loadState()) {
+      const network = saved.network || saved.profileName || saved.host;
+      if (connections.get(network)?.state.connected) {
+        continue;
+      }
+
+      try {
+        const opts = await resolveConnectOptions({
+          network,
+          profile: saved.profileName,
+          host: saved.host,
+          port: saved.port,
+          // The nick held last time may have been a fallback; ask for the real one again
+          nickname: saved.preferredNick || (saved.profileName ? undefined : saved.nick),
+          channels: saved.channels,
+        });
+        opts.lastSeen = saved.lastSeen;
+        await startConnection(opts, ctx);
+
+        if (ctx.hasUI) {
+          const via = saved.profileName ? ` (profile: ${saved.profileName})` : "";
+          ctx.ui.notify(
+            `Resuming IRC session on ${opts.host}:${opts.port} as ${opts.nick}${via}`,
+            "info"
+          );
+        }
+      } catch (error: any) {
+        if (ctx.hasUI) {
+          ctx.ui.notify(`Failed to resume IRC session on ${network}: ${error.message}`, "error");
+        }
+      }
+    }
+  }
+
   pi.on("before_agent_start", async (event, _ctx) => {
-    // Inject custom AGENTS.md content if available
-    if (cachedAgentsContent) {
+    // Inject custom AGENTS.md content if available (once per file, across connections)
+    const contents = new Set<string>();
+    for (const conn of connections.values()) {
+      if (conn.agentsContent) contents.add(conn.agentsContent);
+    }
+    if (contents.size > 0) {
       return {
-        systemPrompt: event.systemPrompt + "\n\n" + cachedAgentsContent,
+        systemPrompt: event.systemPrompt + "\n\n" + [...contents].join("\n\n"),
       };
     }
   });
 
-  pi.on("session_shutdown", async () => {
-    if (ircClient && currentState?.connected) {
-      ircClient.quit("Session ended");
+  pi.on("session_shutdown", async (_event, ctx) => {
+    await flushState(ctx);
+    for (const conn of connections.values()) {
+      cancelReconnect(conn);
+      if (conn.state.connected) {
+        conn.client.quit("Session ended");
+      }
     }
   });
 }
@@ -0,0 +1,71 @@
+/**
+ * Mention detection following IRC conventions: "@nick" anywhere, "nick:" / "nick,"
+ * addressing at the start of a line, plus aliases and highlight words
+ */
+
+export interface MentionOptions {
+  aliases?: string[]; // Other names that address us
+  highlights?: string[]; // Words or phrases that count as a mention anywhere
+}
+
+export interface MentionMatcher {
+  // `fold` lowercases per the server's CASEMAPPING; `nick` is our current nick
+  matches(message: string, nick: string, fold: (text: string) => string): boolean;
+}
+
+const NICK_CHARS = "A-Za-z0-9\\[\\]\\\\`_^{|}\\-";
+const NICK_CHAR = new RegExp(`[${NICK_CHARS}]`);
+// One or more leading "name:" / "name," / "@name," addressees
+const ADDRESS_BLOCK = new RegExp(`^\\s*((?:@?[${NICK_CHARS}]+\\s*[:,]\\s*)+)`);
+
+function isNickChar(ch: string | undefined): boolean {
+  return ch !== undefined && NICK_CHAR.test(ch);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// "@name" as a whole nick, not part of an email address or a longer nick
+function hasAtMention(line: string, name: string): boolean {
+  const needle = `@${name}`;
+  for (let i = line.indexOf(needle); i !== -1; i = line.indexOf(needle, i + 1)) {
+    if (!isNickChar(line[i - 1]) && !isNickChar(line[i + needle.length])) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// Names a line is addressed to, e.g. "alice, bob: ready?" -> ["alice", "bob"]
+function addressees(line: string): string[] {
+  const block = ADDRESS_BLOCK.exec(line);
+  if (!block) return [];
+  return block[1]
+    .split(/[\s:,]+/)
+    .filter(Boolean)
+    .map((name) => name.replace(/^@/, ""));
+}
+
+export function createMentionMatcher(options: MentionOptions = {}): MentionMatcher {
+  const aliases = options.aliases || [];
+  const highlights = (options.highlights || [])
+    .filter((word) => word.trim())
+    .map(
+      (word) => new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(word)}(?![\\p{L}\\p{N}_])`, "iu")
+    );
+
+  function matches(message: string, nick: string, fold: (text: string) => string): boolean {
+    const names = [nick, ...aliases].map(fold);
+
+    for (const raw of message.split("\n")) {
+      const line = fold(raw);
+      if (names.some((name) => hasAtMention(line, name))) return true;
+      if (addressees(line).some((name) => names.includes(name))) return true;
+    }
+
+    return highlights.some((re) => re.test(message));
+  }
+
+  return { matches };
+}
@@ -0,0 +1,47 @@
+/**
+ * Nick selection: alternate nicks and suffix fallbacks for when the preferred one is taken
+ */
+
+import { MAX_NICK_LENGTH } from "./validate.js";
+
+export type NickSuffix = "underscore" | "number" | "none";
+
+const FALLBACK_COUNT = 9; // Suffixed variants tried after the alternates
+
+/**
+ * Parse an ISUPPORT NICKLEN value, or null if the server didn't advertise a usable one
+ */
+export function parseNickLength(value: unknown): number | null {
+  const length = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isInteger(length) && length > 0 ? length : null;
+}
+
+/**
+ * Nicks to try in order: preferred, alternates, then suffixed variants of the preferred nick
+ * trimmed to fit maxLength (e.g. "ByteMe_", "ByteMe__" or "ByteMe1", "ByteMe2")
+ */
+export function nickCandidates(
+  preferred: string,
+  alternates: string[] = [],
+  suffix: NickSuffix = "underscore",
+  maxLength = MAX_NICK_LENGTH
+): string[] {
+  const candidates = [preferred, ...alternates];
+
+  if (suffix !== "none") {
+    for (let i = 1; i <= FALLBACK_COUNT; i++) {
+      const tail = suffix === "number" ? String(i) : "_".repeat(i);
+      const room = maxLength - tail.length;
+      if (room < 1) break;
+      candidates.push(preferred.substring(0, room) + tail);
+    }
+  }
+
+  const seen = new Set<string>();
+  return candidates.filter((nick) => {
+    const key = nick.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
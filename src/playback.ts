@@ -0,0 +1,54 @@
+/**
+ * Chat history playback on (re)join: what a channel said while we were offline, fetched with
+ * IRCv3 CHATHISTORY or from a ZNC bouncer's buffer, and handed over as one backlog message
+ */
+
+import { formatHistory, type HistoryEntry } from "./history.js";
+import type { IRCBouncerOptions, IRCPlaybackOptions } from "./types.js";
+
+export interface PlaybackPolicy {
+  enabled: boolean;
+  limit: number; // Messages per channel; older ones are left out of the backlog
+}
+
+// Batch types whose messages are history rather than live traffic
+export const PLAYBACK_BATCHES = new Set(["chathistory", "draft/chathistory", "znc.in/playback"]);
+
+const DEFAULT_PLAYBACK: PlaybackPolicy = {
+  enabled: true,
+  limit: 100,
+};
+
+export function resolvePlaybackPolicy(options?: IRCPlaybackOptions): PlaybackPolicy {
+  return { ...DEFAULT_PLAYBACK, ...options };
+}
+
+/**
+ * The server password a ZNC-style bouncer expects: user[@client][/network]:password
+ */
+export function bouncerPassword(bouncer: IRCBouncerOptions, password: string): string {
+  const client = bouncer.clientId ? `@${bouncer.clientId}` : "";
+  const network = bouncer.network ? `/${bouncer.network}` : "";
+  return `${bouncer.user}${client}${network}:${password}`;
+}
+
+/**
+ * One message for everything a channel said while we were away: who spoke, how often we were
+ * mentioned, then the messages themselves (oldest first)
+ */
+export function summarizeBacklog(
+  channel: string,
+  entries: HistoryEntry[],
+  mentions: number,
+  omitted: number
+): string {
+  const nicks = [...new Set(entries.map((e) => e.nick))];
+  const from = new Date(entries[0].time).toISOString();
+  const to = new Date(entries[entries.length - 1].time).toISOString();
+  const count = entries.length === 1 ? "1 message" : `${entries.length} messages`;
+
+  let header = `Backlog for ${channel} while you were away: ${count} from ${nicks.join(", ")} (${from} to ${to})`;
+  if (mentions > 0) header += `, ${mentions} mentioning you`;
+  if (omitted > 0) header += `; the ${omitted} before those are left out`;
+  return `${header}\n${formatHistory(entries)}`;
+}
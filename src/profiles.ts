@@ -1,15 +1,33 @@
 /**
- * Profile and server configuration management (read-only)
+ * Profile and server configuration management
  */
 
 import { homedir } from "node:os";
 import { join, resolve } from "node:path";
-import { readFile } from "node:fs/promises";
+import { readFile, stat } from "node:fs/promises";
 import { existsSync } from "node:fs";
-import type { IRCConfig, IRCServer, IRCProfile } from "./types.js";
+import { writeFileAtomic, resolveConfigFilePath, checkPrivateFile } from "./files.js";
+import { validateConfig, formatIssues, type ConfigIssue, type ConfigReport } from "./validate.js";
+import type { IRCConfig, IRCServer, IRCProfile, IRCSecret } from "./types.js";
 
 const DEFAULT_CONFIG_FILE = join(homedir(), ".pi/agent/irc/config.json");
 
+const MASKED_SECRET = "********";
+
+// Secrets for one connection, resolved from inline values or env/file references
+export interface ResolvedSecrets {
+  nickservPass?: string;
+  password?: string;
+  clientKeyPassphrase?: string;
+  channelKeys?: Record<string, string>;
+}
+
+// A secret-holding field in the config, by its JSON path
+interface SecretField {
+  path: string;
+  secret: IRCSecret;
+}
+
 // Custom config file path (set via --irc-config CLI arg)
 let customConfigPath: string | null = null;
 
@@ -22,23 +40,160 @@ function getConfigPath(): string {
 }
 
 /**
- * Load config (servers + profiles) from disk
+ * Read and parse the config file without validating it
+ */
+async function readRawConfig(configFile: string): Promise<unknown> {
+  const content = await readFile(configFile, "utf-8");
+  try {
+    return JSON.parse(content);
+  } catch (error: any) {
+    throw new Error(`${configFile} is not valid JSON: ${error.message}`);
+  }
+}
+
+/**
+ * Load config (servers + profiles) from disk, rejecting it if it fails validation
  */
 async function loadConfig(): Promise<IRCConfig> {
   const configFile = getConfigPath();
   if (!existsSync(configFile)) {
     return { servers: {}, profiles: {} };
   }
-  const content = await readFile(configFile, "utf-8");
-  return JSON.parse(content);
+
+  const raw = await readRawConfig(configFile);
+  const { errors } = validateConfig(raw);
+  if (errors.length > 0) {
+    throw new Error(`${configFile} has ${errors.length} error(s):\n${formatIssues(errors)}`);
+  }
+  return raw as IRCConfig;
+}
+
+// Every secret field in a config, for permission and reference checks
+function secretFields(config: IRCConfig): SecretField[] {
+  const fields: SecretField[] = [];
+  const add = (path: string, secret: IRCSecret | undefined) => {
+    if (secret !== undefined) fields.push({ path, secret });
+  };
+  for (const [name, server] of Object.entries(config.servers)) {
+    add(`servers.${name}.password`, server.password);
+    add(`servers.${name}.clientKeyPassphrase`, server.clientKeyPassphrase);
+  }
+  for (const [name, profile] of Object.entries(config.profiles)) {
+    add(`profiles.${name}.nickservPass`, profile.nickservPass);
+    for (const [channel, key] of Object.entries(profile.channelKeys || {})) {
+      add(`profiles.${name}.channelKeys.${channel}`, key);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Resolve a secret to its value. Errors name the reference, never the value.
+ */
+async function resolveSecret(secret: IRCSecret, warnings: string[]): Promise<string> {
+  if (typeof secret === "string") {
+    return secret;
+  }
+
+  if ("env" in secret) {
+    const value = process.env[secret.env];
+    if (!value) {
+      throw new Error(`environment variable ${secret.env} is not set`);
+    }
+    return value;
+  }
+
+  const path = resolveConfigFilePath(secret.file);
+  try {
+    const warning = await checkPrivateFile(path, "Secret file");
+    if (warning) warnings.push(warning);
+    // Trailing newlines are almost always an editor artefact, not part of the secret
+    return (await readFile(path, "utf-8")).replace(/[\r\n]+$/, "");
+  } catch (error: any) {
+    throw new Error(`could not read secret file ${path} (${error.code || "error"})`);
+  }
+}
+
+// Warn about a readable config file only when it actually holds secrets inline
+async function configFileWarning(
+  configFile: string,
+  secrets: (IRCSecret | undefined)[]
+): Promise<string | null> {
+  if (!secrets.some((secret) => typeof secret === "string")) return null;
+  return checkPrivateFile(configFile, "Config file with inline secrets");
+}
+
+/**
+ * Validate the config file on disk, for `/irc config check`
+ */
+export async function checkConfig(): Promise<{ path: string; exists: boolean } & ConfigReport> {
+  const configFile = getConfigPath();
+  if (!existsSync(configFile)) {
+    return { path: configFile, exists: false, errors: [], warnings: [] };
+  }
+
+  try {
+    const raw = await readRawConfig(configFile);
+    const report = validateConfig(raw);
+    if (report.errors.length === 0) {
+      report.warnings.push(...(await checkSecrets(configFile, raw as IRCConfig)));
+    }
+    return { path: configFile, exists: true, ...report };
+  } catch (error: any) {
+    return {
+      path: configFile,
+      exists: true,
+      errors: [{ path: "", message: error.message }],
+      warnings: [],
+    };
+  }
+}
+
+// Secret references that won't resolve, and secrets other users can read
+async function checkSecrets(configFile: string, config: IRCConfig): Promise<ConfigIssue[]> {
+  const issues: ConfigIssue[] = [];
+  const fields = secretFields(config);
+
+  const configWarning = await configFileWarning(
+    configFile,
+    fields.map((field) => field.secret)
+  );
+  if (configWarning) issues.push({ path: "", message: configWarning });
+
+  for (const { path, secret } of fields) {
+    if (typeof secret === "string") continue;
+    const warnings: string[] = [];
+    try {
+      await resolveSecret(secret, warnings);
+    } catch (error: any) {
+      issues.push({ path, message: error.message });
+      continue;
+    }
+    issues.push(...warnings.map((message) => ({ path, message })));
+  }
+
+  return issues;
 }
 
 /**
- * Get profile with resolved server config
+ * Write config back to disk atomically, keeping the existing file mode
  */
-export async function getResolvedProfile(
-  profileName: string
-): Promise<{ profile: IRCProfile; server: IRCServer } | null> {
+async function writeConfig(config: IRCConfig): Promise<void> {
+  const configFile = getConfigPath();
+  const mode = existsSync(configFile) ? (await stat(configFile)).mode & 0o777 : 0o600;
+  await writeFileAtomic(configFile, JSON.stringify(config, null, 2) + "\n", mode);
+}
+
+/**
+ * Get profile with resolved server config and secrets. Warnings cover secrets that other
+ * users can read; they never contain secret values.
+ */
+export async function getResolvedProfile(profileName: string): Promise<{
+  profile: IRCProfile;
+  server: IRCServer;
+  secrets: ResolvedSecrets;
+  warnings: string[];
+} | null> {
   const config = await loadConfig();
   const profile = config.profiles[profileName];
 
@@ -52,5 +207,122 @@ export async function getResolvedProfile(
     throw new Error(`Profile "${profileName}" references unknown server "${profile.server}"`);
   }
 
-  return { profile, server };
+  // Resolved at connect time, so rotated env vars and secret files are picked up
+  const warnings: string[] = [];
+  const resolveField = async (secret: IRCSecret | undefined, field: string) => {
+    if (secret === undefined) return undefined;
+    try {
+      return await resolveSecret(secret, warnings);
+    } catch (error: any) {
+      throw new Error(`${field}: ${error.message}`);
+    }
+  };
+
+  const secrets: ResolvedSecrets = {
+    nickservPass: await resolveField(profile.nickservPass, `profiles.${profileName}.nickservPass`),
+    password: await resolveField(server.password, `servers.${profile.server}.password`),
+    clientKeyPassphrase: await resolveField(
+      server.clientKeyPassphrase,
+      `servers.${profile.server}.clientKeyPassphrase`
+    ),
+  };
+  if (profile.channelKeys) {
+    secrets.channelKeys = {};
+    for (const [channel, key] of Object.entries(profile.channelKeys)) {
+      secrets.channelKeys[channel] = (await resolveField(
+        key,
+        `profiles.${profileName}.channelKeys.${channel}`
+      ))!;
+    }
+  }
+
+  const configWarning = await configFileWarning(getConfigPath(), [
+    profile.nickservPass,
+    server.password,
+    server.clientKeyPassphrase,
+    ...Object.values(profile.channelKeys || {}),
+  ]);
+  if (configWarning) warnings.unshift(configWarning);
+
+  return { profile, server, secrets, warnings };
+}
+
+/**
+ * List all profiles in the config
+ */
+export async function listProfiles(): Promise<Record<string, IRCProfile>> {
+  const config = await loadConfig();
+  return config.profiles;
+}
+
+/**
+ * Copy of a profile that is safe to show (inline secrets masked; env/file references are
+ * only pointers, so they stay visible)
+ */
+export function maskProfile(profile: IRCProfile): IRCProfile {
+  const masked = { ...profile };
+  if (typeof profile.nickservPass === "string") {
+    masked.nickservPass = MASKED_SECRET;
+  }
+  if (profile.channelKeys) {
+    masked.channelKeys = Object.fromEntries(
+      Object.entries(profile.channelKeys).map(([channel, key]) => [
+        channel,
+        typeof key === "string" ? MASKED_SECRET : key,
+      ])
+    );
+  }
+  return masked;
+}
+
+/**
+ * Create or update a profile. Fields in `updates` are merged over an existing profile,
+ * and `server` (if given) creates or replaces the referenced server entry.
+ * Warnings are those about the saved profile and its server.
+ */
+export async function saveProfile(
+  profileName: string,
+  updates: Partial<IRCProfile>,
+  server?: IRCServer
+): Promise<{ profile: IRCProfile; created: boolean; warnings: ConfigIssue[] }> {
+  const config = await loadConfig();
+  const existing = config.profiles[profileName];
+  const profile = { ...existing, ...updates } as IRCProfile;
+  profile.channels ??= []; // A new profile saved without channels joins none
+
+  config.profiles[profileName] = profile;
+  if (server && profile.server) {
+    config.servers[profile.server] = server;
+  }
+
+  // Never write a config that loadConfig would refuse to read back
+  const { errors, warnings } = validateConfig(config);
+  if (errors.length > 0) {
+    throw new Error(`Invalid profile "${profileName}":\n${formatIssues(errors)}`);
+  }
+
+  await writeConfig(config);
+
+  const scopes = [`profiles.${profileName}`, `servers.${profile.server}`];
+  return {
+    profile,
+    created: !existing,
+    warnings: warnings.filter((w) =>
+      scopes.some((scope) => w.path === scope || w.path.startsWith(`${scope}.`))
+    ),
+  };
+}
+
+/**
+ * Delete a profile; returns false if it did not exist
+ */
+export async function deleteProfile(profileName: string): Promise<boolean> {
+  const config = await loadConfig();
+  if (!config.profiles[profileName]) {
+    return false;
+  }
+
+  delete config.profiles[profileName];
+  await writeConfig(config);
+  return true;
 }
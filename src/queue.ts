@@ -0,0 +1,135 @@
+/**
+ * Outbound flood protection: a token-bucket rate limiter in front of everything we send
+ */
+
+import type { IRCRateLimitOptions } from "./types.js";
+
+// Control traffic (JOIN/PART/NICK/MODE...) is always sent before queued chat lines.
+// Protocol replies irc-framework writes itself (PONG, CAP, AUTHENTICATE) never
+// enter the queue, so they can't get stuck behind a chat backlog.
+export type OutboundPriority = "control" | "chat";
+
+export interface RateLimit {
+  burst: number; // Lines that can go out back-to-back
+  linesPerSecond: number; // Sustained rate once the burst is used up
+  maxQueuedPerTarget: number; // Chat lines waiting for one target
+  maxLinesPerTargetPerMinute: number; // Chat lines sent to one target per minute
+}
+
+interface QueuedLine {
+  priority: OutboundPriority;
+  target?: string;
+  send: () => void;
+  done: (sent: boolean) => void;
+}
+
+export interface QueueDepth {
+  control: number;
+  chat: number;
+  perTarget: Record<string, number>;
+}
+
+export interface OutboundQueue {
+  // Reason the lines would be refused for this target, or null if they fit
+  canAccept(target: string, lines: number): string | null;
+  // Resolves true once the line is written, false if the queue was cleared first
+  enqueue(priority: OutboundPriority, send: () => void, target?: string): Promise<boolean>;
+  depth(): QueueDepth;
+  clear(): void;
+}
+
+const DEFAULT_RATE_LIMIT: RateLimit = {
+  burst: 4,
+  linesPerSecond: 2,
+  maxQueuedPerTarget: 20,
+  maxLinesPerTargetPerMinute: 30,
+};
+
+export function resolveRateLimit(options?: IRCRateLimitOptions): RateLimit {
+  return { ...DEFAULT_RATE_LIMIT, ...options };
+}
+
+export function createOutboundQueue(limit: RateLimit): OutboundQueue {
+  const control: QueuedLine[] = [];
+  const chat: QueuedLine[] = [];
+  const sentTimes = new Map<string, number[]>(); // Per-target send times, last minute only
+  let tokens = limit.burst;
+  let lastRefill = Date.now();
+  let timer: NodeJS.Timeout | null = null;
+
+  const key = (target: string) => target.toLowerCase();
+
+  function refill(): void {
+    const now = Date.now();
+    tokens = Math.min(limit.burst, tokens + ((now - lastRefill) / 1000) * limit.linesPerSecond);
+    lastRefill = now;
+  }
+
+  function recentSends(target: string): number[] {
+    const cutoff = Date.now() - 60000;
+    const times = (sentTimes.get(key(target)) || []).filter((t) => t > cutoff);
+    sentTimes.set(key(target), times);
+    return times;
+  }
+
+  function queuedFor(target: string): number {
+    return chat.filter((line) => line.target && key(line.target) === key(target)).length;
+  }
+
+  function pump(): void {
+    timer = null;
+    refill();
+
+    while (tokens >= 1 && (control.length > 0 || chat.length > 0)) {
+      const line = (control.length > 0 ? control : chat).shift()!;
+      tokens -= 1;
+      line.send();
+      if (line.target) recentSends(line.target).push(Date.now());
+      line.done(true);
+    }
+
+    if (control.length > 0 || chat.length > 0) {
+      const wait = Math.ceil(((1 - tokens) / limit.linesPerSecond) * 1000);
+      timer = setTimeout(pump, Math.max(wait, 10));
+    }
+  }
+
+  return {
+    canAccept(target, lines) {
+      const queued = queuedFor(target);
+      if (queued + lines > limit.maxQueuedPerTarget) {
+        return `${queued} line(s) already queued for ${target} (max ${limit.maxQueuedPerTarget})`;
+      }
+      const recent = recentSends(target).length;
+      if (recent + queued + lines > limit.maxLinesPerTargetPerMinute) {
+        return `${recent} line(s) sent to ${target} in the last minute (max ${limit.maxLinesPerTargetPerMinute})`;
+      }
+      return null;
+    },
+
+    enqueue(priority, send, target) {
+      return new Promise<boolean>((resolve) => {
+        (priority === "control" ? control : chat).push({ priority, target, send, done: resolve });
+        if (!timer) pump();
+      });
+    },
+
+    depth() {
+      const perTarget: Record<string, number> = {};
+      for (const line of chat) {
+        if (line.target) perTarget[line.target] = (perTarget[line.target] || 0) + 1;
+      }
+      return { control: control.length, chat: chat.length, perTarget };
+    },
+
+    clear() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = null;
+      }
+      for (const line of [...control.splice(0), ...chat.splice(0)]) {
+        line.done(false);
+      }
+    },
+  };
+}
@@ -0,0 +1,54 @@
+/**
+ * Automatic reconnect policy and backoff calculation
+ */
+
+import type { IRCReconnectOptions } from "./types.js";
+
+export interface ReconnectPolicy {
+  enabled: boolean;
+  maxAttempts: number; // 0 = retry forever
+  initialDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_RECONNECT_POLICY: ReconnectPolicy = {
+  enabled: true,
+  maxAttempts: 10,
+  initialDelayMs: 2000,
+  maxDelayMs: 5 * 60 * 1000,
+};
+
+/**
+ * Merge reconnect settings, later layers (e.g. profile) overriding earlier ones (e.g. server)
+ */
+export function resolveReconnectPolicy(
+  ...layers: (IRCReconnectOptions | undefined)[]
+): ReconnectPolicy {
+  const policy = { ...DEFAULT_RECONNECT_POLICY };
+  for (const layer of layers) {
+    if (!layer) continue;
+    if (layer.enabled !== undefined) policy.enabled = layer.enabled;
+    if (layer.maxAttempts !== undefined) policy.maxAttempts = layer.maxAttempts;
+    if (layer.initialDelayMs !== undefined) policy.initialDelayMs = layer.initialDelayMs;
+    if (layer.maxDelayMs !== undefined) policy.maxDelayMs = layer.maxDelayMs;
+  }
+  return policy;
+}
+
+/**
+ * Whether another attempt is allowed after `attempts` failed ones
+ */
+export function canRetry(attempts: number, policy: ReconnectPolicy): boolean {
+  return policy.enabled && (policy.maxAttempts === 0 || attempts < policy.maxAttempts);
+}
+
+/**
+ * Exponential backoff with jitter: the delay doubles each attempt (capped at
+ * maxDelayMs) and a random half of it is used so that agents dropped by the
+ * same netsplit don't all reconnect at once.
+ */
+export function getBackoffDelay(attempt: number, policy: ReconnectPolicy): number {
+  const exponent = Math.min(attempt - 1, 30);
+  const base = Math.min(policy.maxDelayMs, policy.initialDelayMs * 2 ** exponent);
+  return Math.round(base / 2 + Math.random() * (base / 2));
+}
@@ -0,0 +1,159 @@
+/**
+ * Outbound secret filter: finds credentials (and optionally PII) in messages before they
+ * leave for a server we don't control, and redacts them or blocks the message
+ */
+
+import type { IRCRedactOptions } from "./types.js";
+
+export interface RedactPolicy {
+  enabled: boolean;
+  action: "redact" | "block";
+  detectors: Detector[];
+  allow: RegExp[]; // Matches that are known to be harmless (e.g. documentation examples)
+}
+
+export interface Detector {
+  name: string;
+  // Global regex; a named group "secret" limits the redaction to that part of the match
+  pattern: RegExp;
+}
+
+export interface Finding {
+  name: string; // Detector that matched
+  line: number; // 1-based line of the message
+  length: number; // Characters withheld
+}
+
+export interface ScreenResult {
+  text: string; // What may be sent: redacted, or the original if nothing matched
+  findings: Finding[];
+  blocked: boolean; // action "block" and something matched: send nothing
+}
+
+// Uppercase .env names only: lowercase `primary_key: id` or `hotkey: ctrl` is just config.
+// YAML-style `key: value` secrets can be covered with custom patterns. The secret word must be
+// the last whole _-separated segment (BYPASS or MONKEY are not), and KEY only counts with a
+// qualifier that makes it a credential (API_KEY, not PRIMARY_KEY).
+const SECRET_NAME =
+  "(?:[A-Z0-9]+_)*(?:(?:API|ACCESS|SECRET|PRIVATE|SIGNING|ENCRYPTION|MASTER|LICENSE)_?KEY|SECRET|TOKEN|PASSWORD|PASSWD|PASS|PWD|CREDENTIALS?|AUTH|DSN)";
+
+const SECRET_DETECTORS: Detector[] = [
+  {
+    name: "private key",
+    pattern:
+      /-----BEGIN [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----[\s\S]*?(?:-----END [A-Z0-9 ]*PRIVATE KEY( BLOCK)?-----|$)/g,
+  },
+  { name: "AWS access key", pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g },
+  {
+    name: "GitHub token",
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,}|github_pat_[A-Za-z0-9_]{22,})/g,
+  },
+  { name: "Slack token", pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: "API key", pattern: /\bsk-(?:ant-|proj-|live_|test_)?[A-Za-z0-9_-]{20,}/g },
+  { name: "Google API key", pattern: /\bAIza[0-9A-Za-z_-]{35}/g },
+  { name: "JWT", pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g },
+  { name: "bearer token", pattern: /\bBearer\s+(?<secret>[A-Za-z0-9._~+/-]{16,}=*)/gi },
+  { name: "URL password", pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:/@]+:(?<secret>[^\s@/]+)@/gi },
+  {
+    name: "env secret",
+    pattern: new RegExp(
+      `^[ \\t]*(?:export[ \\t]+)?${SECRET_NAME}[ \\t]*=[ \\t]*(?<secret>"[^"\\n]*"|'[^'\\n]*'|[^\\s"']\\S*)(?:[ \\t]+#.*)?[ \\t]*$`,
+      "gm"
+    ),
+  },
+];
+
+const PII_DETECTORS: Detector[] = [
+  { name: "email address", pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g },
+  { name: "card number", pattern: /\b(?:\d[ -]?){12,18}\d\b/g },
+];
+
+export function resolveRedactPolicy(options?: IRCRedactOptions): RedactPolicy {
+  const custom = (options?.patterns || []).map((entry, i) =>
+    typeof entry === "string"
+      ? { name: `pattern ${i + 1}`, pattern: new RegExp(entry, "g") }
+      : { name: entry.name, pattern: new RegExp(entry.pattern, "g") }
+  );
+  return {
+    enabled: options?.enabled !== false,
+    action: options?.action || "redact",
+    detectors: [
+      ...(options?.builtins === false ? [] : SECRET_DETECTORS),
+      ...(options?.pii ? PII_DETECTORS : []),
+      ...custom,
+    ],
+    allow: (options?.allow || []).map((entry) => new RegExp(entry)),
+  };
+}
+
+// Card-number candidates are only reported when they pass the Luhn check
+function luhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let d = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      d *= 2;
+      if (d > 9) d -= 9;
+    }
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an outgoing message against the policy's detectors
+ */
+export function screenMessage(message: string, policy: RedactPolicy): ScreenResult {
+  if (!policy.enabled) return { text: message, findings: [], blocked: false };
+
+  const spans: { start: number; end: number; name: string }[] = [];
+  for (const detector of policy.detectors) {
+    for (const match of message.matchAll(detector.pattern)) {
+      // Zero-length matches from user patterns have nothing to withhold
+      if (match[0] === "") continue;
+      if (policy.allow.some((re) => re.test(match[0]))) continue;
+      if (detector.name === "card number" && !luhn(match[0].replace(/\D/g, ""))) continue;
+
+      const secret = match.groups?.secret;
+      const start = match.index! + (secret ? match[0].lastIndexOf(secret) : 0);
+      const end = secret ? start + secret.length : match.index! + match[0].length;
+      spans.push({ start, end, name: detector.name });
+    }
+  }
+  if (spans.length === 0) return { text: message, findings: [], blocked: false };
+
+  // Overlapping matches (e.g. an AWS key on an env line) are withheld once, first come first
+  spans.sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: typeof spans = [];
+  for (const span of spans) {
+    const last = merged[merged.length - 1];
+    if (last && span.start < last.end) {
+      last.end = Math.max(last.end, span.end);
+    } else {
+      merged.push({ ...span });
+    }
+  }
+
+  let text = "";
+  let pos = 0;
+  const findings: Finding[] = [];
+  for (const span of merged) {
+    text += message.slice(pos, span.start) + `[REDACTED ${span.name}]`;
+    pos = span.end;
+    findings.push({
+      name: span.name,
+      line: message.slice(0, span.start).split("\n").length,
+      length: span.end - span.start,
+    });
+  }
+  text += message.slice(pos);
+
+  return { text, findings, blocked: policy.action === "block" };
+}
+
+/**
+ * Describe what was withheld without repeating it, e.g. "AWS access key (line 3, 20 chars)"
+ */
+export function describeFindings(findings: Finding[]): string {
+  return findings.map((f) => `${f.name} (line ${f.line}, ${f.length} chars)`).join(", ");
+}
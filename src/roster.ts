@@ -0,0 +1,238 @@
+/**
+ * Channel rosters: who is in each channel we're in, with their op/voice modes, away
+ * status and services account, plus the channel's topic and modes, kept live from NAMES,
+ * WHO, TOPIC, MODE and membership events
+ */
+
+export interface RosterUser {
+  nick: string;
+  ident?: string;
+  hostname?: string;
+  realname?: string;
+  account?: string | null; // null = not logged in, undefined = unknown
+  away?: boolean; // undefined until WHO, WHOIS or away-notify says
+  awayMessage?: string;
+}
+
+export interface RosterMember extends RosterUser {
+  modes: string[]; // Channel prefix modes, highest first (e.g. ["o", "v"])
+  prefix: string; // Symbol of the highest mode ("@", "+"), or ""
+}
+
+export interface RosterTopic {
+  text: string; // "" when there is none
+  by?: string; // Who set it
+  time?: number; // When, epoch ms
+}
+
+export interface RosterChannel {
+  name: string;
+  synced: boolean; // The server's NAMES reply has arrived
+  members: RosterMember[]; // Highest mode first, then by nick
+  topic: RosterTopic | null; // null until the server has told us
+  modes: Record<string, string | null>; // Channel flags (t, n, k, l...) and their params
+}
+
+// Case folding and the server's PREFIX list come from the connection's client
+export interface RosterHooks {
+  fold(text: string): string;
+  prefixes(): { symbol: string; mode: string }[];
+}
+
+export interface Roster {
+  channels(): RosterChannel[];
+  channel(name: string): RosterChannel | null; // null if we aren't in it
+  user(nick: string): (RosterUser & { channels: string[] }) | null; // Seen in a shared channel
+  // A NAMES reply replaces the channel's member list
+  sync(
+    channel: string,
+    users: { nick: string; ident?: string; hostname?: string; modes: string[] }[]
+  ): void;
+  update(user: RosterUser): void; // WHO, WHOIS, away-notify, account-notify: known users only
+  join(channel: string, user: RosterUser, self: boolean): void;
+  leave(channel: string, nick: string): void; // Part or kick
+  drop(channel: string): void; // We left or were kicked
+  quit(nick: string): void;
+  rename(nick: string, newNick: string): void;
+  setMode(channel: string, nick: string, mode: string, on: boolean): void;
+  setTopic(channel: string, topic: Partial<RosterTopic>): void; // Merged into what is known
+  setFlag(channel: string, mode: string, on: boolean, param?: string): void; // Not lists or prefixes
+  clear(): void; // Link lost: nothing is known until we rejoin
+}
+
+interface ChannelEntry {
+  name: string;
+  synced: boolean;
+  members: Map<string, string[]>; // Folded nick -> prefix modes
+  topic: RosterTopic | null;
+  modes: Map<string, string | null>;
+}
+
+export function createRoster(hooks: RosterHooks): Roster {
+  const channels = new Map<string, ChannelEntry>();
+  const users = new Map<string, RosterUser>();
+
+  const rank = (mode: string) => {
+    const i = hooks.prefixes().findIndex((p) => p.mode === mode);
+    return i === -1 ? Infinity : i;
+  };
+
+  const sortModes = (modes: string[]) => [...new Set(modes)].sort((a, b) => rank(a) - rank(b));
+
+  // Users are only kept while they share a channel with us
+  const prune = (key: string) => {
+    for (const entry of channels.values()) {
+      if (entry.members.has(key)) return;
+    }
+    users.delete(key);
+  };
+
+  const remember = (user: RosterUser) => {
+    const key = hooks.fold(user.nick);
+    const known = users.get(key);
+    const defined = Object.fromEntries(
+      Object.entries(user).filter(([, value]) => value !== undefined)
+    );
+    const merged: RosterUser = { ...known, ...defined, nick: user.nick };
+    if (merged.away === false) delete merged.awayMessage;
+    users.set(key, merged);
+    return key;
+  };
+
+  const view = (entry: ChannelEntry): RosterChannel => {
+    const prefixes = hooks.prefixes();
+    const members = [...entry.members].map(([key, modes]) => ({
+      ...users.get(key)!,
+      modes,
+      prefix: prefixes.find((p) => p.mode === modes[0])?.symbol || "",
+    }));
+    members.sort(
+      (a, b) =>
+        rank(a.modes[0]) - rank(b.modes[0]) || hooks.fold(a.nick).localeCompare(hooks.fold(b.nick))
+    );
+    return {
+      name: entry.name,
+      synced: entry.synced,
+      members,
+      topic: entry.topic && { ...entry.topic },
+      modes: Object.fromEntries(entry.modes),
+    };
+  };
+
+  return {
+    channels() {
+      return [...channels.values()].map(view);
+    },
+
+    channel(name) {
+      const entry = channels.get(hooks.fold(name));
+      return entry ? view(entry) : null;
+    },
+
+    user(nick) {
+      const key = hooks.fold(nick);
+      const user = users.get(key);
+      if (!user) return null;
+      const shared = [...channels.values()]
+        .filter((entry) => entry.members.has(key))
+        .map((entry) => entry.name);
+      return { ...user, channels: shared };
+    },
+
+    sync(channel, list) {
+      const entry = channels.get(hooks.fold(channel));
+      if (!entry) return; // NAMES for a channel we aren't in
+
+      const before = [...entry.members.keys()];
+      entry.members.clear();
+      for (const { nick, ident, hostname, modes } of list) {
+        entry.members.set(remember({ nick, ident, hostname }), sortModes(modes));
+      }
+      entry.synced = true;
+      before.filter((key) => !entry.members.has(key)).forEach(prune);
+    },
+
+    update(user) {
+      if (users.has(hooks.fold(user.nick))) remember(user);
+    },
+
+    join(channel, user, self) {
+      const key = hooks.fold(channel);
+      if (self) {
+        channels.set(key, {
+          name: channel,
+          synced: false,
+          members: new Map(),
+          topic: null,
+          modes: new Map(),
+        });
+      }
+      const entry = channels.get(key);
+      if (!entry) return;
+      const nick = remember(user);
+      if (!entry.members.has(nick)) entry.members.set(nick, []);
+    },
+
+    leave(channel, nick) {
+      const key = hooks.fold(nick);
+      channels.get(hooks.fold(channel))?.members.delete(key);
+      prune(key);
+    },
+
+    drop(channel) {
+      const entry = channels.get(hooks.fold(channel));
+      if (!entry) return;
+      channels.delete(hooks.fold(channel));
+      [...entry.members.keys()].forEach(prune);
+    },
+
+    quit(nick) {
+      const key = hooks.fold(nick);
+      for (const entry of channels.values()) entry.members.delete(key);
+      users.delete(key);
+    },
+
+    rename(nick, newNick) {
+      const key = hooks.fold(nick);
+      const user = users.get(key);
+      if (!user) return;
+      const newKey = hooks.fold(newNick);
+      users.delete(key);
+      users.set(newKey, { ...user, nick: newNick });
+      for (const entry of channels.values()) {
+        const modes = entry.members.get(key);
+        if (!modes) continue;
+        entry.members.delete(key);
+        entry.members.set(newKey, modes);
+      }
+    },
+
+    setMode(channel, nick, mode, on) {
+      const members = channels.get(hooks.fold(channel))?.members;
+      const key = hooks.fold(nick);
+      const modes = members?.get(key);
+      if (!members || !modes) return;
+      members.set(key, on ? sortModes([...modes, mode]) : modes.filter((m) => m !== mode));
+    },
+
+    setTopic(channel, topic) {
+      const entry = channels.get(hooks.fold(channel));
+      if (entry) entry.topic = { text: "", ...entry.topic, ...topic };
+    },
+
+    setFlag(channel, mode, on, param) {
+      const modes = channels.get(hooks.fold(channel))?.modes;
+      if (!modes) return;
+      if (on) {
+        modes.set(mode, param ?? null);
+      } else {
+        modes.delete(mode);
+      }
+    },
+
+    clear() {
+      channels.clear();
+      users.clear();
+    },
+  };
+}
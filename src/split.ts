@@ -0,0 +1,79 @@
+/**
+ * Splitting outgoing messages into IRC-sized lines
+ */
+
+const IRC_LINE_BYTES = 512; // Including the trailing CRLF
+const MAX_HOST_LENGTH = 63; // Assumed when the server hasn't told us our visible host
+export const MAX_CONTINUATION_BYTES = 16; // Longest continuation marker a profile may set
+
+/**
+ * Bytes left for message text once the server prefixes our line with
+ * ":nick!user@host COMMAND target :" and appends CRLF
+ */
+export function maxPayloadBytes(
+  command: string,
+  target: string,
+  nick: string,
+  username = nick,
+  host?: string
+): number {
+  const prefix = `:${nick}!${username}@${host || "x".repeat(MAX_HOST_LENGTH)} `;
+  const overhead = Buffer.byteLength(`${prefix}${command} ${target} :\r\n`);
+  return IRC_LINE_BYTES - overhead;
+}
+
+/**
+ * Split one line into chunks of at most maxBytes, preferring to break at spaces and
+ * never inside a UTF-8 sequence. Non-final chunks get the continuation marker.
+ */
+function splitLine(line: string, maxBytes: number, continuation: string): string[] {
+  if (Buffer.byteLength(line) <= maxBytes) {
+    return [line];
+  }
+
+  const marker = continuation ? ` ${continuation}` : "";
+  const budget = maxBytes - Buffer.byteLength(marker);
+  const chunks: string[] = [];
+  let rest = line;
+
+  while (Buffer.byteLength(rest) > maxBytes) {
+    // Take whole code points until the budget is used up
+    let end = 0;
+    let bytes = 0;
+    for (const char of rest) {
+      const size = Buffer.byteLength(char);
+      if (bytes + size > budget) break;
+      bytes += size;
+      end += char.length;
+    }
+    if (end === 0) {
+      // Not even one character fits next to the marker; stop rather than loop forever
+      throw new Error(
+        `No room to split a line into ${maxBytes}-byte chunks with "${continuation}"`
+      );
+    }
+
+    // Back up to the last space if that doesn't waste more than half the line
+    const space = rest.lastIndexOf(" ", end);
+    const cut = space > end / 2 ? space : end;
+
+    chunks.push(rest.slice(0, cut).trimEnd() + marker);
+    rest = rest.slice(cut).trimStart();
+  }
+
+  if (rest) {
+    chunks.push(rest);
+  }
+  return chunks;
+}
+
+/**
+ * Split a message on newlines and byte length; empty lines are dropped
+ * since IRC can't carry them
+ */
+export function splitMessage(message: string, maxBytes: number, continuation = ""): string[] {
+  return message
+    .split(/\r\n|\n|\r/)
+    .filter((line) => line.trim() !== "")
+    .flatMap((line) => splitLine(line, maxBytes, continuation));
+}
@@ -0,0 +1,54 @@
+/**
+ * Connection state persistence (~/.pi/agent/irc/state.json)
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { readFile, rm } from "node:fs/promises";
+import { existsSync } from "node:fs";
+import { writeFileAtomic } from "./files.js";
+import type { IRCPersistedState } from "./types.js";
+
+const STATE_FILE = join(homedir(), ".pi/agent/irc/state.json");
+
+// Drop entries that can't be resumed from
+function isResumable(state: any): state is IRCPersistedState {
+  return !!state && typeof state.host === "string" && typeof state.nick === "string";
+}
+
+/**
+ * Load the saved connections, or an empty list if there are none
+ */
+export async function loadState(): Promise<IRCPersistedState[]> {
+  if (!existsSync(STATE_FILE)) {
+    return [];
+  }
+  try {
+    const content = await readFile(STATE_FILE, "utf-8");
+    const parsed = JSON.parse(content);
+    // Older state files held a single connection at the top level
+    const states: unknown[] = Array.isArray(parsed?.connections) ? parsed.connections : [parsed];
+    return states.filter(isResumable).map((state) => ({
+      ...state,
+      channels: state.channels || [],
+      lastSeen: state.lastSeen || {},
+    }));
+  } catch {
+    // A corrupt state file just means there is nothing to resume
+    return [];
+  }
+}
+
+/**
+ * Save the state of every connection atomically
+ */
+export async function saveState(states: IRCPersistedState[]): Promise<void> {
+  await writeFileAtomic(STATE_FILE, JSON.stringify({ connections: states }, null, 2) + "\n");
+}
+
+/**
+ * Forget saved state (after the last connection is explicitly closed)
+ */
+export async function clearState(): Promise<void> {
+  await rm(STATE_FILE, { force: true });
+}
@@ -0,0 +1,170 @@
+/**
+ * TLS material for server connections: CA bundles and client certificates
+ */
+
+import { EventEmitter } from "node:events";
+import net from "node:net";
+import tls from "node:tls";
+import { createPrivateKey } from "node:crypto";
+import { readFile } from "node:fs/promises";
+import { resolveConfigFilePath } from "./files.js";
+
+// Server TLS settings, with the key passphrase already resolved from any secret reference
+export interface TLSFiles {
+  ca?: string;
+  clientCert?: string;
+  clientKey?: string;
+  clientKeyPassphrase?: string;
+}
+
+export interface TLSMaterial {
+  ca?: string; // PEM bundle trusted instead of the system CAs
+  cert?: string; // Client certificate (SASL EXTERNAL / CertFP)
+  key?: string; // Private key for cert
+}
+
+// A certificate, key or CA bundle that couldn't be read or decrypted
+export class TLSMaterialError extends Error {}
+
+async function readPem(filePath: string, what: string): Promise<string> {
+  const path = resolveConfigFilePath(filePath);
+  try {
+    return await readFile(path, "utf-8");
+  } catch (error: any) {
+    throw new TLSMaterialError(`Could not read TLS ${what} ${path}: ${error.message}`);
+  }
+}
+
+/**
+ * Read the server's CA bundle and client certificate/key, if configured
+ */
+export async function loadTLSMaterial(server: TLSFiles): Promise<TLSMaterial> {
+  const material: TLSMaterial = {};
+  if (server.ca) {
+    material.ca = await readPem(server.ca, "CA bundle");
+  }
+  if (server.clientCert) {
+    material.cert = await readPem(server.clientCert, "client certificate");
+    // A single PEM file may hold both the certificate and its key
+    material.key = server.clientKey ? await readPem(server.clientKey, "client key") : material.cert;
+    // irc-framework can't pass a passphrase through, so hand it the decrypted key
+    if (server.clientKeyPassphrase) {
+      try {
+        material.key = createPrivateKey({
+          key: material.key,
+          passphrase: server.clientKeyPassphrase,
+        })
+          .export({ type: "pkcs8", format: "pem" })
+          .toString();
+      } catch (error: any) {
+        throw new TLSMaterialError(`Could not decrypt TLS client key: ${error.message}`);
+      }
+    }
+  }
+  return material;
+}
+
+/**
+ * irc-framework's TCP/TLS transport has no option for a CA bundle, so servers with one use
+ * this transport instead: the same socket handling, with the client options' `ca` passed to
+ * tls.connect(). Lines are UTF-8, as irc-framework's default.
+ */
+export class CATransport extends EventEmitter {
+  private socket: net.Socket | null = null;
+  private connected = false;
+  private buffer = Buffer.alloc(0); // Bytes of a line not yet complete
+
+  constructor(
+    private options: {
+      host: string;
+      port?: number;
+      tls?: boolean;
+      ca?: string;
+      rejectUnauthorized?: boolean;
+      client_certificate?: { certificate: string; private_key: string };
+      ping_interval?: number;
+      ping_timeout?: number;
+    }
+  ) {
+    super();
+  }
+
+  connect(): void {
+    const { host, port = 6667, ca, rejectUnauthorized, client_certificate } = this.options;
+    this.disposeSocket();
+    this.buffer = Buffer.alloc(0);
+
+    const socket = this.options.tls
+      ? tls.connect({
+          host,
+          port,
+          ca,
+          rejectUnauthorized,
+          // SNI only makes sense for names, not IP addresses
+          servername: net.isIP(host) ? undefined : host,
+          cert: client_certificate?.certificate,
+          key: client_certificate?.private_key,
+        })
+      : net.connect({ host, port });
+    this.socket = socket;
+
+    const { ping_interval: interval = 0, ping_timeout: timeout = 0 } = this.options;
+    if (interval > 0 && timeout > 0) socket.setTimeout((interval + timeout) * 1000);
+
+    socket.on(socket instanceof tls.TLSSocket ? "secureConnect" : "connect", () => {
+      this.connected = true;
+      this.emit("open");
+    });
+    socket.on("data", (data: Buffer) => this.onData(data));
+    socket.on("timeout", () => this.close(true));
+    socket.on("error", (error) => this.emit("debug", `CATransport error: ${error.message}`));
+    socket.on("close", (hadError) => {
+      this.connected = false;
+      this.emit("close", hadError);
+    });
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  writeLine(line: string, callback?: () => void): void {
+    if (this.socket && this.connected) {
+      this.socket.write(`${line}\r\n`, callback);
+    } else if (callback) {
+      process.nextTick(callback);
+    }
+  }
+
+  setEncoding(encoding: string): boolean {
+    return encoding.toLowerCase().replace("-", "") === "utf8";
+  }
+
+  close(force?: boolean): void {
+    if (!this.socket) return;
+    if (force || !this.connected) {
+      this.socket.destroy();
+    } else {
+      this.socket.end();
+    }
+  }
+
+  disposeSocket(): void {
+    if (!this.socket) return;
+    this.socket.removeAllListeners();
+    this.socket.on("error", () => {}); // Late errors from a socket we've let go of
+    this.socket.destroy();
+    this.socket = null;
+    this.connected = false;
+  }
+
+  // Split on bytes, not characters, so a UTF-8 sequence cut across two reads stays whole
+  private onData(data: Buffer): void {
+    this.buffer = Buffer.concat([this.buffer, data]);
+    let end: number;
+    while ((end = this.buffer.indexOf(0x0a)) !== -1) {
+      this.emit("line", this.buffer.subarray(0, end + 1).toString("utf8"));
+      this.buffer = this.buffer.subarray(end + 1);
+    }
+  }
+}
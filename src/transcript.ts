@@ -0,0 +1,153 @@
+/**
+ * On-disk chat transcripts: one file per channel/DM, irssi-style text and/or JSONL
+ */
+
+import { join } from "node:path";
+import { appendFile, mkdir } from "node:fs/promises";
+import { resolveConfigFilePath } from "./files.js";
+import type { IRCTranscriptOptions } from "./types.js";
+
+export type TranscriptKind =
+  | "message"
+  | "action"
+  | "notice"
+  | "join"
+  | "part"
+  | "quit"
+  | "kick"
+  | "topic"
+  | "nick";
+
+export interface TranscriptEvent {
+  time: number; // Epoch ms
+  target: string; // Channel or DM peer; SERVER_TARGET for network-wide events
+  kind: TranscriptKind;
+  nick: string; // Who did it (empty for server-provided topics)
+  text?: string; // Message, reason or topic
+  newNick?: string; // For nick changes
+  kicked?: string; // For kicks
+  userhost?: string; // ident@host, when known
+}
+
+export interface TranscriptWriter {
+  write(event: TranscriptEvent): void;
+  dir: string;
+}
+
+// Quits and nick changes aren't tied to a channel
+export const SERVER_TARGET = "server";
+
+const DEFAULT_TRANSCRIPT_DIR = resolveConfigFilePath("irc/logs");
+
+// Keep file names portable: lowercase, no path separators or odd characters
+function fileBase(target: string): string {
+  return target.toLowerCase().replace(/[^a-z0-9#&._-]/g, "_");
+}
+
+function localDate(time: number): string {
+  const d = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+function localTime(time: number): string {
+  return new Date(time).toTimeString().slice(0, 8);
+}
+
+/**
+ * Render an event the way irssi logs it (one or more lines, no timestamps)
+ */
+function formatEvent(event: TranscriptEvent): string[] {
+  const who = event.userhost ? `${event.nick} [${event.userhost}]` : event.nick;
+  const reason = event.text ? ` [${event.text}]` : "";
+
+  switch (event.kind) {
+    case "message":
+      return (event.text || "").split("\n").map((line) => `<${event.nick}> ${line}`);
+    case "action":
+      return [` * ${event.nick} ${event.text || ""}`];
+    case "notice":
+      return (event.text || "").split("\n").map((line) => `-${event.nick}- ${line}`);
+    case "join":
+      return [`-!- ${who} has joined ${event.target}`];
+    case "part":
+      return [`-!- ${who} has left ${event.target}${reason}`];
+    case "quit":
+      return [`-!- ${who} has quit${reason}`];
+    case "kick":
+      return [`-!- ${event.kicked} was kicked from ${event.target} by ${event.nick}${reason}`];
+    case "topic":
+      return event.nick
+        ? [`-!- ${event.nick} changed the topic of ${event.target} to: ${event.text || ""}`]
+        : [`-!- Topic for ${event.target}: ${event.text || ""}`];
+    case "nick":
+      return [`-!- ${event.nick} is now known as ${event.newNick}`];
+  }
+}
+
+/**
+ * Create a writer for a profile's transcripts, or null if logging is off. Write failures go to
+ * warn, once per file until a write to it succeeds again
+ */
+export function createTranscriptWriter(
+  options: IRCTranscriptOptions | undefined,
+  name: string,
+  warn: (message: string) => void
+): TranscriptWriter | null {
+  if (!options || options.enabled === false) {
+    return null;
+  }
+
+  const dir = options.dir ? resolveConfigFilePath(options.dir) : join(DEFAULT_TRANSCRIPT_DIR, name);
+  const format = options.format || "text";
+  const daily = options.rotate === "daily";
+
+  // Appends are chained per file so lines land in the order events arrived
+  const queues = new Map<string, Promise<void>>();
+  const lastDate = new Map<string, string>();
+  const failing = new Set<string>();
+  let dirReady: Promise<unknown> | null = null;
+
+  function append(file: string, content: string): void {
+    dirReady ??= mkdir(dir, { recursive: true, mode: 0o700 });
+    const previous = queues.get(file) || dirReady.then(() => undefined);
+    const next = previous
+      .then(() => appendFile(file, content, { encoding: "utf-8", mode: 0o600 }))
+      .then(() => {
+        failing.delete(file);
+      })
+      .catch((error: any) => {
+        if (failing.has(file)) return;
+        failing.add(file);
+        warn(`Could not write IRC transcript ${file}: ${error.message}`);
+      });
+    queues.set(file, next);
+  }
+
+  function write(event: TranscriptEvent): void {
+    const date = localDate(event.time);
+    const base = join(dir, daily ? `${fileBase(event.target)}-${date}` : fileBase(event.target));
+
+    if (format === "text" || format === "both") {
+      const file = `${base}.log`;
+      let header = "";
+      const seen = lastDate.get(file);
+      if (seen === undefined) {
+        header = `--- Log opened ${new Date(event.time).toString()}\n`;
+      } else if (seen !== date) {
+        header = `--- Day changed ${new Date(event.time).toDateString()}\n`;
+      }
+      lastDate.set(file, date);
+
+      const time = localTime(event.time);
+      const lines = formatEvent(event).map((line) => `${time} ${line}\n`);
+      append(file, header + lines.join(""));
+    }
+
+    if (format === "jsonl" || format === "both") {
+      append(`${base}.jsonl`, JSON.stringify(event) + "\n");
+    }
+  }
+
+  return { write, dir };
+}
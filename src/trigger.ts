@@ -0,0 +1,79 @@
+/**
+ * Turn-trigger policies: which channel messages wake the agent, and what happens
+ * to the ones that don't
+ */
+
+import type { IRCTriggerOptions, IRCTriggerRule } from "./types.js";
+
+export type TriggerMode = NonNullable<IRCTriggerRule["mode"]>;
+export type OtherMessages = NonNullable<IRCTriggerRule["others"]>;
+
+export interface TriggerPolicy {
+  mode: TriggerMode;
+  patterns: RegExp[];
+  nicks: string[]; // Lowercased
+  others: OtherMessages;
+}
+
+export interface TriggerPolicies {
+  // Profile defaults merged with the channel's overrides
+  forChannel(channel: string): TriggerPolicy;
+}
+
+export interface TriggerInput {
+  nick: string; // Sender
+  message: string;
+  mentioned: boolean;
+}
+
+const DEFAULT_TRIGGER: IRCTriggerRule = {
+  mode: "mention",
+  patterns: [],
+  nicks: [],
+  others: "show",
+};
+
+export function createTriggerPolicies(options: IRCTriggerOptions = {}): TriggerPolicies {
+  const { channels = {}, ...defaults } = options;
+  const overrides = new Map(
+    Object.entries(channels).map(([name, rule]) => [name.toLowerCase(), rule])
+  );
+  const cache = new Map<string, TriggerPolicy>();
+
+  function forChannel(channel: string): TriggerPolicy {
+    const key = channel.toLowerCase();
+    let policy = cache.get(key);
+    if (!policy) {
+      const rule = { ...DEFAULT_TRIGGER, ...defaults, ...overrides.get(key) };
+      policy = {
+        mode: rule.mode!,
+        // Patterns were checked when the config was loaded or saved
+        patterns: (rule.patterns || []).map((source) => new RegExp(source, "i")),
+        nicks: (rule.nicks || []).map((nick) => nick.toLowerCase()),
+        others: rule.others!,
+      };
+      cache.set(key, policy);
+    }
+    return policy;
+  }
+
+  return { forChannel };
+}
+
+/**
+ * Whether a channel message should trigger an agent turn under the policy
+ */
+export function shouldTrigger(policy: TriggerPolicy, input: TriggerInput): boolean {
+  switch (policy.mode) {
+    case "never":
+      return false;
+    case "all":
+      return true;
+    case "match":
+      return input.mentioned || policy.patterns.some((re) => re.test(input.message));
+    case "nicks":
+      return input.mentioned || policy.nicks.includes(input.nick.toLowerCase());
+    default:
+      return input.mentioned;
+  }
+}
@@ -2,21 +2,126 @@
  * Type definitions for IRC profiles and servers
  */
 
+export interface IRCReconnectOptions {
+  enabled?: boolean; // Reconnect automatically when the link drops (default: true)
+  maxAttempts?: number; // Give up after this many attempts, 0 = forever (default: 10)
+  initialDelayMs?: number; // Delay before the first attempt (default: 2000)
+  maxDelayMs?: number; // Upper bound for the backoff delay (default: 300000)
+}
+
+export interface IRCTranscriptOptions {
+  enabled?: boolean; // Write transcripts (default: true when this block is present)
+  dir?: string; // Directory for log files; relative to ~/.pi/agent/ (default: irc/logs/<profile>)
+  format?: "text" | "jsonl" | "both"; // irssi-style text, JSON lines, or both (default: text)
+  rotate?: "none" | "daily"; // One file per target, or per target per day (default: none)
+}
+
+export interface IRCRateLimitOptions {
+  burst?: number; // Lines sent back-to-back before throttling (default: 4)
+  linesPerSecond?: number; // Sustained send rate (default: 2)
+  maxQueuedPerTarget?: number; // Max chat lines waiting for one channel/user (default: 20)
+  maxLinesPerTargetPerMinute?: number; // Max chat lines to one channel/user per minute (default: 30)
+}
+
+export interface IRCBouncerOptions {
+  user: string; // Bouncer account
+  network?: string; // Which of the account's networks to attach to
+  clientId?: string; // ZNC client ID, for a buffer of its own
+}
+
+export interface IRCPlaybackOptions {
+  enabled?: boolean; // Fetch what was missed on (re)join (default: true)
+  limit?: number; // Max messages per channel in the backlog (default: 100)
+}
+
+export interface IRCLoopGuardOptions {
+  enabled?: boolean; // Limit agent turns triggered by other nicks (default: true)
+  windowMs?: number; // Sliding window for the budgets below (default: 600000)
+  maxTurnsPerPeer?: number; // Turns one nick may trigger per window (default: 10)
+  maxTurnsPerChannel?: number; // Turns one channel may trigger per window (default: 20)
+  allowlist?: string[]; // Nicks that always trigger turns (e.g. humans)
+  announce?: boolean; // Post a one-line "pausing" notice to the channel (default: false)
+}
+
+export interface IRCTriggerRule {
+  mode?: "mention" | "all" | "match" | "nicks" | "never"; // What triggers a turn (default: mention)
+  patterns?: string[]; // "match": keywords/regexes (case-insensitive) that trigger, besides mentions
+  nicks?: string[]; // "nicks": senders whose every message triggers, besides mentions
+  others?: "show" | "hide" | "drop"; // Non-triggering messages: shown, context only, or not delivered (default: show)
+}
+
+export interface IRCTriggerOptions extends IRCTriggerRule {
+  channels?: Record<string, IRCTriggerRule>; // Per-channel overrides of the fields above
+}
+
+// A nick, optionally pinned to the services account it must be logged in to
+export type IRCTrustedUser = string | { nick: string; account?: string };
+
+export interface IRCAccessOptions {
+  owners?: IRCTrustedUser[]; // Humans in charge: their DMs steer the current turn
+  trusted?: IRCTrustedUser[]; // May trigger turns; their DMs are queued as follow-ups
+  untrusted?: "ignore" | "context" | "ask"; // Everyone else's DMs and mentions (default: context)
+}
+
+export interface IRCRedactOptions {
+  enabled?: boolean; // Screen outgoing messages for secrets (default: true)
+  action?: "redact" | "block"; // Replace what matched, or refuse the whole message (default: redact)
+  builtins?: boolean; // Built-in detectors: API keys, tokens, private keys, env lines (default: true)
+  pii?: boolean; // Also detect email addresses and card numbers (default: false)
+  patterns?: (string | { name: string; pattern: string })[]; // Extra regexes (case-sensitive)
+  allow?: string[]; // Regexes for matches that may be sent anyway (e.g. example keys)
+}
+
+export interface IRCApprovalOptions {
+  mode?: "off" | "channels" | "all"; // Which sends a human must approve (default: off)
+  headless?: "allow" | "deny"; // What happens when there is no UI to ask (default: deny)
+  timeoutMs?: number; // Unanswered requests are rejected after this long (default: 300000)
+}
+
+// A secret given inline, or a reference to an environment variable or a file holding it
+export type IRCSecret = string | { env: string } | { file: string };
+
 export interface IRCServer {
   host: string; // Server hostname
   port: number; // Port number (6667 plain, 6697 SSL)
   ssl?: boolean; // Use SSL/TLS
+  password?: IRCSecret; // Server password (PASS), e.g. for private servers or bouncers
+  ca?: string; // PEM CA bundle to verify the server against (path)
+  rejectUnauthorized?: boolean; // Verify the server certificate (default: true)
+  clientCert?: string; // PEM client certificate for SASL EXTERNAL / CertFP (path)
+  clientKey?: string; // PEM private key for clientCert (path; default: clientCert)
+  clientKeyPassphrase?: IRCSecret; // Passphrase for an encrypted clientKey
+  reconnect?: IRCReconnectOptions; // Automatic reconnect settings
+  rateLimit?: IRCRateLimitOptions; // Outbound flood protection
+  bouncer?: IRCBouncerOptions; // ZNC-style bouncer: sent as PASS user[@client][/network]:password
+  playback?: IRCPlaybackOptions; // Chat history (CHATHISTORY or bouncer) on (re)join
 }
 
 export interface IRCProfile {
   server: string; // Server name reference
   nick: string; // Nickname
+  altNicks?: string[]; // Tried in order when the nick is taken
+  nickSuffix?: "underscore" | "number" | "none"; // Fallback after altNicks: ByteMe_ / ByteMe1 (default: underscore)
   username?: string; // Username/ident (defaults to nick)
   realname?: string; // Real name (defaults to nick)
   channels: string[]; // Channels to auto-join
-  nickservPass?: string; // NickServ password for SASL
+  channelKeys?: Record<string, IRCSecret>; // Keys (+k) for channels, by channel name
+  autoJoinOnInvite?: "never" | "trusted" | "always"; // Follow INVITEs: "trusted" = owners/trusted only, nobody without access (default: never)
+  nickservPass?: IRCSecret; // NickServ password for SASL
+  saslAccount?: string; // Account name for SASL PLAIN (default: nick)
+  saslMechanism?: "PLAIN" | "EXTERNAL"; // EXTERNAL authenticates with the server's clientCert
   autoConnect?: boolean; // Auto-connect on startup (default: true)
   agentsFile?: string; // Path to custom AGENTS.md file for this profile
+  reconnect?: IRCReconnectOptions; // Overrides the server's reconnect settings
+  transcript?: IRCTranscriptOptions; // Durable chat logs for this profile
+  continuationMarker?: string; // Appended to lines that continue on the next one (e.g. "…")
+  loopGuard?: IRCLoopGuardOptions; // Stop agent-to-agent ping-pong
+  trigger?: IRCTriggerOptions; // Which channel messages trigger agent turns
+  aliases?: string[]; // Other names that count as addressing this agent
+  highlights?: string[]; // Extra words or phrases that count as a mention
+  access?: IRCAccessOptions; // Who may steer the agent (default: anyone)
+  redact?: IRCRedactOptions; // Outbound secret filter
+  approval?: IRCApprovalOptions | "off" | "channels" | "all"; // Human sign-off before sending
 }
 
 export interface IRCConfig {
@@ -25,10 +130,26 @@ export interface IRCConfig {
 }
 
 export interface IRCState {
+  network: string; // Registry key: profile name, or the network/host for manual connects
   connected: boolean;
   host: string;
   port: number;
   nick: string;
   channels: string[];
   profileName?: string; // Track which profile is active (if any)
+  reconnectAttempt?: number; // Current reconnect attempt, set while the link is down
+  lastSeen: Record<string, number>; // Last message timestamp (epoch ms) per channel
+}
+
+// What survives a pi restart (written to state.json)
+export interface IRCPersistedState {
+  network?: string; // Missing in state files written before multi-network support
+  profileName?: string;
+  host: string;
+  port: number;
+  nick: string; // The nick held when saved; may be a fallback like "ByteMe_"
+  preferredNick?: string; // What to register as on resume; missing in older state files
+  channels: string[];
+  lastSeen: Record<string, number>;
+  savedAt: number;
 }
@@ -0,0 +1,406 @@
+/**
+ * Schema validation for config.json (servers + profiles)
+ */
+
+import { MAX_CONTINUATION_BYTES } from "./split.js";
+
+export const MAX_NICK_LENGTH = 9; // RFC 1459 NICKLEN, assumed until the server advertises its own
+const CHANNEL_PATTERN = /^[#&][^\s,\x07]+$/;
+
+export interface ConfigIssue {
+  path: string; // JSON path, e.g. "profiles.dev1.channels[1]"
+  message: string;
+}
+
+export interface ConfigReport {
+  errors: ConfigIssue[];
+  warnings: ConfigIssue[];
+}
+
+type Check = (value: unknown, path: string, report: ConfigReport) => void;
+
+interface Field {
+  check: Check;
+  required?: boolean;
+}
+
+type Shape = Record<string, Field>;
+
+function error(report: ConfigReport, path: string, message: string): void {
+  report.errors.push({ path, message });
+}
+
+function childPath(path: string, key: string): string {
+  return path ? `${path}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+// Edit distance, used to suggest the intended key for a typo
+function distance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+// =============================================================================
+// Field checks
+// =============================================================================
+
+const str: Check = (value, path, report) => {
+  if (typeof value !== "string" || value === "") {
+    error(report, path, "must be a non-empty string");
+  }
+};
+
+const continuationMarker: Check = (value, path, report) => {
+  if (typeof value !== "string") {
+    error(report, path, "must be a string");
+  } else if (Buffer.byteLength(value) > MAX_CONTINUATION_BYTES) {
+    error(report, path, `must be at most ${MAX_CONTINUATION_BYTES} bytes`);
+  }
+};
+
+const bool: Check = (value, path, report) => {
+  if (typeof value !== "boolean") {
+    error(report, path, "must be true or false");
+  }
+};
+
+function int(min: number, max = Number.MAX_SAFE_INTEGER): Check {
+  return (value, path, report) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min || value > max) {
+      const range = max === Number.MAX_SAFE_INTEGER ? `>= ${min}` : `between ${min} and ${max}`;
+      error(report, path, `must be an integer ${range}`);
+    }
+  };
+}
+
+const positive: Check = (value, path, report) => {
+  if (typeof value !== "number" || !(value > 0)) {
+    error(report, path, "must be a number greater than 0");
+  }
+};
+
+const nick: Check = (value, path, report) => {
+  if (typeof value !== "string" || value === "") {
+    error(report, path, "must be a non-empty string");
+  } else if (/[\s,*?!@]/.test(value)) {
+    error(report, path, `"${value}" contains characters not allowed in a nick`);
+  } else if (value.length > MAX_NICK_LENGTH) {
+    // Only the server knows its NICKLEN; a rejected nick falls back to the alternates
+    report.warnings.push({
+      path,
+      message: `"${value}" is longer than ${MAX_NICK_LENGTH} chars, the limit assumed until the server advertises NICKLEN; it may still fit, and if the server refuses it the alternates are tried`,
+    });
+  }
+};
+
+const channel: Check = (value, path, report) => {
+  if (typeof value !== "string") {
+    error(report, path, "must be a string");
+  } else if (!CHANNEL_PATTERN.test(value)) {
+    error(report, path, "must start with # or & and contain no spaces or commas");
+  }
+};
+
+const secret: Check = (value, path, report) => {
+  if (typeof value === "string" && value !== "") return;
+  if (isPlainObject(value)) {
+    const keys = Object.keys(value);
+    const ref = value[keys[0]];
+    if (keys.length === 1 && ["env", "file"].includes(keys[0]) && typeof ref === "string" && ref) {
+      return;
+    }
+  }
+  error(report, path, 'must be a non-empty string, {"env": "VAR"} or {"file": "path"}');
+};
+
+const pattern: Check = (value, path, report) => {
+  if (typeof value !== "string" || value === "") {
+    error(report, path, "must be a non-empty string");
+    return;
+  }
+  try {
+    new RegExp(value, "i");
+  } catch (e: any) {
+    error(report, path, `is not a valid regular expression: ${e.message}`);
+  }
+};
+
+function oneOf(...values: string[]): Check {
+  return (value, path, report) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      error(report, path, `must be one of: ${values.join(", ")}`);
+    }
+  };
+}
+
+function list(item: Check): Check {
+  return (value, path, report) => {
+    if (!Array.isArray(value)) {
+      error(report, path, "must be a list");
+      return;
+    }
+    value.forEach((entry, i) => item(entry, `${path}[${i}]`, report));
+  };
+}
+
+function object(shape: Shape): Check {
+  return (value, path, report) => {
+    if (!isPlainObject(value)) {
+      error(report, path || "(root)", "must be an object");
+      return;
+    }
+
+    for (const [key, field] of Object.entries(shape)) {
+      if (value[key] === undefined) {
+        if (field.required) error(report, childPath(path, key), "is required");
+      } else {
+        field.check(value[key], childPath(path, key), report);
+      }
+    }
+
+    const known = Object.keys(shape);
+    for (const key of Object.keys(value)) {
+      if (known.includes(key)) continue;
+      const suggestion = known.find((k) => distance(k.toLowerCase(), key.toLowerCase()) <= 2);
+      const hint = suggestion ? ` (did you mean "${suggestion}"?)` : "";
+      report.warnings.push({ path: childPath(path, key), message: `unknown key, ignored${hint}` });
+    }
+  };
+}
+
+// Map of user-chosen names to entries of the same shape
+function record(item: Check): Check {
+  return (value, path, report) => {
+    if (!isPlainObject(value)) {
+      error(report, path, "must be an object");
+      return;
+    }
+    for (const [key, entry] of Object.entries(value)) {
+      item(entry, childPath(path, key), report);
+    }
+  };
+}
+
+// =============================================================================
+// Schema
+// =============================================================================
+
+const reconnectShape: Shape = {
+  enabled: { check: bool },
+  maxAttempts: { check: int(0) },
+  initialDelayMs: { check: int(0) },
+  maxDelayMs: { check: int(0) },
+};
+
+const transcriptShape: Shape = {
+  enabled: { check: bool },
+  dir: { check: str },
+  format: { check: oneOf("text", "jsonl", "both") },
+  rotate: { check: oneOf("none", "daily") },
+};
+
+const rateLimitShape: Shape = {
+  burst: { check: int(1) },
+  linesPerSecond: { check: positive },
+  maxQueuedPerTarget: { check: int(1) },
+  maxLinesPerTargetPerMinute: { check: int(1) },
+};
+
+const bouncerShape: Shape = {
+  user: { check: str, required: true },
+  network: { check: str },
+  clientId: { check: str },
+};
+
+const playbackShape: Shape = {
+  enabled: { check: bool },
+  limit: { check: int(1) },
+};
+
+const loopGuardShape: Shape = {
+  enabled: { check: bool },
+  windowMs: { check: int(1000) },
+  maxTurnsPerPeer: { check: int(1) },
+  maxTurnsPerChannel: { check: int(1) },
+  allowlist: { check: list(str) },
+  announce: { check: bool },
+};
+
+const triggerRuleShape: Shape = {
+  mode: { check: oneOf("mention", "all", "match", "nicks", "never") },
+  patterns: { check: list(pattern) },
+  nicks: { check: list(str) },
+  others: { check: oneOf("show", "hide", "drop") },
+};
+
+const triggerShape: Shape = {
+  ...triggerRuleShape,
+  channels: { check: record(object(triggerRuleShape)) },
+};
+
+const trustedUserShape: Shape = {
+  nick: { check: nick, required: true },
+  account: { check: str },
+};
+
+// A bare nick, or a nick pinned to a services account
+const trustedUser: Check = (value, path, report) => {
+  if (typeof value === "string") {
+    nick(value, path, report);
+  } else {
+    object(trustedUserShape)(value, path, report);
+  }
+};
+
+const accessShape: Shape = {
+  owners: { check: list(trustedUser) },
+  trusted: { check: list(trustedUser) },
+  untrusted: { check: oneOf("ignore", "context", "ask") },
+};
+
+const redactPatternShape: Shape = {
+  name: { check: str, required: true },
+  pattern: { check: pattern, required: true },
+};
+
+// A bare regex, or a named one so findings say what matched
+const redactPattern: Check = (value, path, report) => {
+  if (typeof value === "string") {
+    pattern(value, path, report);
+  } else {
+    object(redactPatternShape)(value, path, report);
+  }
+};
+
+const redactShape: Shape = {
+  enabled: { check: bool },
+  action: { check: oneOf("redact", "block") },
+  builtins: { check: bool },
+  pii: { check: bool },
+  patterns: { check: list(redactPattern) },
+  allow: { check: list(pattern) },
+};
+
+const approvalModes = ["off", "channels", "all"];
+
+const approvalShape: Shape = {
+  mode: { check: oneOf(...approvalModes) },
+  headless: { check: oneOf("allow", "deny") },
+  timeoutMs: { check: int(1000) },
+};
+
+// Just the mode, or the mode with its headless policy and timeout
+const approval: Check = (value, path, report) => {
+  if (typeof value === "string") {
+    oneOf(...approvalModes)(value, path, report);
+  } else {
+    object(approvalShape)(value, path, report);
+  }
+};
+
+const serverShape: Shape = {
+  host: { check: str, required: true },
+  port: { check: int(1, 65535), required: true },
+  ssl: { check: bool },
+  password: { check: secret },
+  ca: { check: str },
+  rejectUnauthorized: { check: bool },
+  clientCert: { check: str },
+  clientKey: { check: str },
+  clientKeyPassphrase: { check: secret },
+  reconnect: { check: object(reconnectShape) },
+  rateLimit: { check: object(rateLimitShape) },
+  bouncer: { check: object(bouncerShape) },
+  playback: { check: object(playbackShape) },
+};
+
+const profileShape: Shape = {
+  server: { check: str, required: true },
+  nick: { check: nick, required: true },
+  username: { check: str },
+  realname: { check: str },
+  channels: { check: list(channel), required: true },
+  channelKeys: { check: record(secret) },
+  autoJoinOnInvite: { check: oneOf("never", "trusted", "always") },
+  nickservPass: { check: secret },
+  saslAccount: { check: str },
+  saslMechanism: { check: oneOf("PLAIN", "EXTERNAL") },
+  autoConnect: { check: bool },
+  agentsFile: { check: str },
+  reconnect: { check: object(reconnectShape) },
+  transcript: { check: object(transcriptShape) },
+  continuationMarker: { check: continuationMarker },
+  loopGuard: { check: object(loopGuardShape) },
+  trigger: { check: object(triggerShape) },
+  altNicks: { check: list(nick) },
+  nickSuffix: { check: oneOf("underscore", "number", "none") },
+  aliases: { check: list(str) },
+  highlights: { check: list(str) },
+  access: { check: object(accessShape) },
+  redact: { check: object(redactShape) },
+  approval: { check: approval },
+};
+
+const configShape: Shape = {
+  servers: { check: record(object(serverShape)), required: true },
+  profiles: { check: record(object(profileShape)), required: true },
+};
+
+/**
+ * Validate a parsed config, reporting every problem with its JSON path
+ */
+export function validateConfig(raw: unknown): ConfigReport {
+  const report: ConfigReport = { errors: [], warnings: [] };
+  object(configShape)(raw, "", report);
+
+  // A bouncer login is user/network:password, so it needs the password half
+  if (isPlainObject(raw) && isPlainObject(raw.servers)) {
+    for (const [name, server] of Object.entries(raw.servers)) {
+      if (isPlainObject(server) && server.bouncer && server.password === undefined) {
+        error(report, `servers.${name}.bouncer`, "needs the bouncer's password in 'password'");
+      }
+    }
+  }
+
+  // Cross-references: every profile must point at a defined server
+  if (isPlainObject(raw) && isPlainObject(raw.profiles)) {
+    const servers = isPlainObject(raw.servers) ? raw.servers : {};
+    for (const [name, profile] of Object.entries(raw.profiles)) {
+      if (!isPlainObject(profile) || typeof profile.server !== "string") continue;
+      if (!(profile.server in servers)) {
+        error(report, `profiles.${name}.server`, `references unknown server "${profile.server}"`);
+        continue;
+      }
+      const server = servers[profile.server];
+      if (profile.saslMechanism === "EXTERNAL" && isPlainObject(server) && !server.clientCert) {
+        error(
+          report,
+          `profiles.${name}.saslMechanism`,
+          `EXTERNAL needs a clientCert on server "${profile.server}"`
+        );
+      }
+    }
+  }
+
+  return report;
+}
+
+/**
+ * Format issues one per line as "path: message"
+ */
+export function formatIssues(issues: ConfigIssue[]): string {
+  return issues.map((issue) => `${issue.path || "(root)"}: ${issue.message}`).join("\n");
+}